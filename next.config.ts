@@ -2,6 +2,10 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   reactCompiler: true,
+  // System prompt templates are read from disk by src/lib/prompts at runtime
+  outputFileTracingIncludes: {
+    "/api/chat": ["./src/lib/prompts/*.txt"],
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,204 @@
+// Headless runner for the record/replay harness (@/lib/session-harness).
+//
+//   npm run sessions                           replay every fixtures/sessions/*.json
+//   npm run sessions -- --replay <name>        replay one recording
+//   npm run sessions -- --record <name> <input>...
+//                                              type the inputs into a fresh page and
+//                                              save what happened as <name>.json
+//
+// The real page (src/app/page.tsx) is rendered into jsdom with ?record= or
+// ?replay= and driven through useSessionHarness, exactly like a browser tab.
+// Its /api/* requests go straight to the route handlers in src/app/api, in
+// this process — during a replay the harness answers them from the recording
+// first, so only /api/sessions is ever served. Record with MOCK_LLM=1 to get a
+// session that doesn't depend on a live model.
+
+import { spawnSync } from "node:child_process";
+import { existsSync, readdirSync } from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const SESSIONS_DIR = path.join(ROOT, "fixtures", "sessions");
+// Same quiet period the harness uses before it calls a replay done
+const IDLE_MS = 2000;
+const TIMEOUT_MS = 180_000;
+
+const [mode, name, ...inputs] = process.argv.slice(2);
+
+if (!mode) {
+  // Each recording gets its own process so module state can't leak between them
+  const names = existsSync(SESSIONS_DIR)
+    ? readdirSync(SESSIONS_DIR).filter((f) => f.endsWith(".json")).map((f) => f.slice(0, -5))
+    : [];
+  if (names.length === 0) {
+    console.error(`No recordings in ${path.relative(ROOT, SESSIONS_DIR)}`);
+    process.exit(1);
+  }
+  let failed = 0;
+  for (const session of names) {
+    const run = spawnSync(process.execPath, [fileURLToPath(import.meta.url), "--replay", session], { stdio: "inherit" });
+    if (run.status !== 0) failed++;
+  }
+  console.log(`\n${names.length - failed}/${names.length} sessions passed`);
+  process.exit(failed ? 1 : 0);
+} else if (mode === "--replay" && name) {
+  process.exit(await replay(name));
+} else if (mode === "--record" && name && inputs.length > 0) {
+  process.exit(await record(name, inputs));
+} else {
+  console.error("Usage: replay-sessions.mjs [--replay <name> | --record <name> <input>...]");
+  process.exit(2);
+}
+
+async function replay(session) {
+  const { window } = await mountPage(`?replay=${encodeURIComponent(session)}`);
+  const result = await waitFor(() => (window.senkoReplay?.status !== "running" ? window.senkoReplay : null));
+  if (!result) {
+    console.error(`✗ ${session}: replay never started`);
+    return 1;
+  }
+  if (result.status === "passed") {
+    console.log(`✓ ${session}`);
+    return 0;
+  }
+  console.error(`✗ ${session}${result.error ? `: ${result.error}` : ""}`);
+  for (const diff of result.diffs) console.error(`    ${diff}`);
+  for (const request of result.unmatched) console.error(`    not in the recording: ${request}`);
+  return 1;
+}
+
+async function record(session, texts) {
+  const { window, pending } = await mountPage(`?record=${encodeURIComponent(session)}`);
+  const textarea = await waitFor(() => window.document.querySelector("textarea"));
+  if (!textarea || !window.senkoSession) {
+    console.error("The page never became ready to record");
+    return 1;
+  }
+  for (const text of texts) {
+    console.log(`[record] ${text}`);
+    // Go through React's own value tracking so the controlled textarea sees the change
+    const setValue = Object.getOwnPropertyDescriptor(window.HTMLTextAreaElement.prototype, "value").set;
+    setValue.call(textarea, text);
+    textarea.dispatchEvent(new window.Event("input", { bubbles: true }));
+    textarea.dispatchEvent(new window.KeyboardEvent("keydown", { key: "Enter", bubbles: true }));
+    await waitForQuiet(window, pending);
+  }
+  const recording = await window.senkoSession.stop();
+  if (!recording) return 1;
+  console.log(`Saved ${path.relative(ROOT, path.join(SESSIONS_DIR, `${session}.json`))}`);
+  return 0;
+}
+
+// -- Page environment --------------------------------------------------------
+
+async function mountPage(search) {
+  process.env.NODE_ENV = "development";
+  const { JSDOM } = await import("jsdom");
+  const { createJiti } = await import("jiti");
+
+  const dom = new JSDOM(`<!DOCTYPE html><html><body><div id="root"></div></body></html>`, {
+    url: `http://localhost:3000/${search}`,
+    pretendToBeVisual: true,
+  });
+  const { window } = dom;
+
+  // Browser APIs jsdom doesn't implement — the page only needs them to exist
+  window.matchMedia = (query) => ({
+    matches: false,
+    media: query,
+    onchange: null,
+    addEventListener() {},
+    removeEventListener() {},
+    addListener() {},
+    removeListener() {},
+    dispatchEvent: () => false,
+  });
+  window.ResizeObserver ??= class { observe() {} unobserve() {} disconnect() {} };
+  window.IntersectionObserver ??= class { observe() {} unobserve() {} disconnect() {} takeRecords() { return []; } };
+  window.Element.prototype.scrollIntoView ??= function () {};
+  window.Element.prototype.scrollTo ??= function () {};
+  window.HTMLElement.prototype.focus ??= function () {};
+  window.open = () => null;
+
+  for (const key of Object.getOwnPropertyNames(window)) {
+    if (key in globalThis) continue;
+    Object.defineProperty(globalThis, key, { configurable: true, get: () => window[key] });
+  }
+  for (const key of ["window", "self", "document", "navigator", "localStorage", "sessionStorage", "location"]) {
+    Object.defineProperty(globalThis, key, { configurable: true, get: () => window[key] });
+  }
+
+  const jiti = createJiti(path.join(ROOT, "package.json"), {
+    alias: { "@": path.join(ROOT, "src") },
+    jsx: { runtime: "automatic" },
+    moduleCache: true,
+  });
+
+  // Same-origin /api/* requests run the route handler; nothing else leaves the process
+  const { NextRequest } = await jiti.import("next/server");
+  const pending = { count: 0 };
+  window.fetch = async (input, init = {}) => {
+    const url = new URL(input instanceof Request ? input.url : String(input), window.location.href);
+    if (url.origin !== window.location.origin || !url.pathname.startsWith("/api/")) {
+      return Response.json({ error: `offline: ${url.href}` }, { status: 502 });
+    }
+    const method = (init.method ?? (input instanceof Request ? input.method : "GET")).toUpperCase();
+    const file = path.join(ROOT, "src", "app", url.pathname, "route.ts");
+    if (!existsSync(file)) return Response.json({ error: "Not found" }, { status: 404 });
+    const handler = (await jiti.import(file))[method];
+    if (!handler) return Response.json({ error: "Method not allowed" }, { status: 405 });
+    pending.count++;
+    try {
+      // The headers a browser adds to the page's own requests
+      const headers = new Headers(init.headers);
+      headers.set("host", url.host);
+      headers.set("origin", window.location.origin);
+      headers.set("sec-fetch-site", "same-origin");
+      return await handler(new NextRequest(url, { ...init, method, headers }));
+    } catch (err) {
+      // What Next answers when a route throws
+      console.error(`[api] ${method} ${url.pathname} threw:`, err);
+      return new Response(null, { status: 500 });
+    } finally {
+      pending.count--;
+    }
+  };
+  // The page calls the bare globals; the harness swaps the window's
+  globalThis.fetch = (...args) => window.fetch(...args);
+
+  const React = await jiti.import("react");
+  const { createRoot } = await jiti.import("react-dom/client");
+  const { default: Home } = await jiti.import("@/app/page.tsx");
+  createRoot(window.document.getElementById("root")).render(React.createElement(Home));
+  return { window, pending };
+}
+
+function sleep(ms) {
+  return new Promise((r) => setTimeout(r, ms));
+}
+
+async function waitFor(probe) {
+  const deadline = Date.now() + TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    const value = probe();
+    if (value) return value;
+    await sleep(100);
+  }
+  return null;
+}
+
+// Done once no handler is running and the DOM has stopped changing for IDLE_MS
+async function waitForQuiet(window, pending) {
+  let quietSince = Date.now();
+  const observer = new window.MutationObserver(() => { quietSince = Date.now(); });
+  observer.observe(window.document.body, { subtree: true, childList: true, characterData: true, attributes: true });
+  try {
+    await waitFor(() => {
+      if (pending.count > 0) quietSince = Date.now();
+      return Date.now() - quietSince >= IDLE_MS;
+    });
+  } finally {
+    observer.disconnect();
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest } from "next/server";
+import { getAction } from "@/lib/actions";
+import { SERVER_ACTIONS } from "@/lib/actions/plugins.server";
+
+export const runtime = "nodejs";
+
+// Server actions reach local tools (MCP servers touch files, git, databases),
+// so only the app's own pages may call this. Browsers send Origin with every
+// POST and Sec-Fetch-Site where they support it; anything cross-site, or
+// without either, is refused.
+function fromApp(req: NextRequest): boolean {
+  const site = req.headers.get("sec-fetch-site");
+  if (site && site !== "same-origin") return false;
+  const origin = req.headers.get("origin");
+  if (!origin) return site === "same-origin";
+  try {
+    return new URL(origin).host === (req.headers.get("host") ?? req.nextUrl.host);
+  } catch {
+    return false;
+  }
+}
+
+// Runs the server half of a plugin action declared with `server: true`.
+// Body: { type, value } -> { result }
+export async function POST(req: NextRequest) {
+  if (!fromApp(req)) {
+    return Response.json({ error: "Actions can only be run from the app" }, { status: 403 });
+  }
+  try {
+    const { type, value } = await req.json();
+    if (typeof type !== "string" || typeof value !== "string") {
+      return Response.json({ error: "type and value required" }, { status: 400 });
+    }
+
+    const handler = SERVER_ACTIONS[type];
+    if (!getAction(type)?.server || !handler) {
+      return Response.json({ error: `No server handler for action ${type}` }, { status: 404 });
+    }
+
+    const result = await handler(value);
+    return Response.json({ result });
+  } catch (err) {
+    return Response.json({
+      error: err instanceof Error ? err.message : "Action failed",
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextRequest } from "next/server";
+import { browseUrl } from "@/lib/search";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+export async function GET(req: NextRequest) {
+  const url = req.nextUrl.searchParams.get("url");
+  const maxContent = req.nextUrl.searchParams.get("maxContent");
+
+  if (!url) {
+    return Response.json({ error: "url required", code: "bad_request" }, { status: 400 });
+  }
+
+  const { body, status, via } = await browseUrl(url, {
+    maxContent: maxContent ? parseInt(maxContent) || undefined : undefined,
+  });
+  return Response.json(body, { status, headers: { "X-Search-Via": via } });
+}
@@ -1,12 +1,32 @@
 import { config } from "@/lib/config";
+import { listProviders, getProviderCascade, getModelHealth, getProbe } from "@/lib/providers";
 
 export const runtime = "nodejs";
 
 export async function GET() {
   const key = config.groqApiKey;
+  const cascade = getProviderCascade().map((p) => p.name);
+
+  // Circuit breaker state per provider/model (in-process, resets on redeploy)
+  const providers = listProviders().map((p) => ({
+    name: p.name,
+    label: p.label,
+    configured: p.isConfigured(),
+    inCascade: cascade.includes(p.name),
+    capabilities: p.capabilities,
+    probe: p.capabilities.local ? getProbe(p.name) : undefined,
+    models: p.isConfigured()
+      ? [...new Set([...(p.reasoningModels?.() ?? []), ...p.models()])].map((m) => getModelHealth(p.name, m))
+      : [],
+  }));
+
+  const open = providers.flatMap((p) => p.models.filter((m) => m.state === "open"));
+
   return Response.json({
-    status: "ok",
+    status: open.length > 0 ? "degraded" : "ok",
     groqKeySet: !!key,
     groqKeyLength: key.length,
+    cascade,
+    providers,
   });
 }
@@ -0,0 +1,14 @@
+import { config } from "@/lib/config";
+import { listMcpServers } from "@/lib/mcp/manager";
+
+export const runtime = "nodejs";
+
+// MCP servers from mcp.json with their connection state, tools and resources.
+// Connects to any that aren't connected yet.
+export async function GET() {
+  const servers = await listMcpServers();
+  return Response.json({
+    config: config.mcpConfigPath,
+    servers,
+  });
+}
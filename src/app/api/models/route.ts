@@ -0,0 +1,53 @@
+import {
+  getProviderCascade,
+  isAvailable,
+  probeProvider,
+  DEFAULT_MAX_TOKENS,
+  DEFAULT_TEMPERATURE,
+  type ProviderAdapter,
+} from "@/lib/providers";
+import { getContextWindow } from "@/lib/tokens";
+import type { ModelProviderInfo } from "@/types/chat";
+
+export const runtime = "nodejs";
+
+// Models the picker can offer, grouped by provider in cascade order. Local
+// servers report what they actually have installed (Ollama /api/tags, /v1/models);
+// cloud providers list the models the cascade is configured to try.
+
+async function describe(provider: ProviderAdapter): Promise<ModelProviderInfo> {
+  const local = provider.capabilities.local;
+  const up = local ? await probeProvider(provider) : undefined;
+  const reasoning = new Set(provider.reasoningModels?.() ?? []);
+
+  let ids = [...new Set([...reasoning, ...provider.models()])];
+  if (up && provider.listModels) {
+    try {
+      const installed = await provider.listModels();
+      if (installed.length > 0) ids = installed;
+    } catch (err) {
+      console.warn(`[models] ${provider.label} listing failed:`, err instanceof Error ? err.message : err);
+    }
+  }
+
+  return {
+    name: provider.name,
+    label: provider.label,
+    local,
+    up,
+    models: ids.map((id) => ({
+      id,
+      reasoning: reasoning.has(id),
+      contextWindow: getContextWindow(id),
+      coolingDown: !isAvailable(provider.name, id),
+    })),
+  };
+}
+
+export async function GET() {
+  const providers = await Promise.all(getProviderCascade().map(describe));
+  return Response.json({
+    providers,
+    defaults: { temperature: DEFAULT_TEMPERATURE, maxTokens: DEFAULT_MAX_TOKENS },
+  });
+}
@@ -1,29 +1,25 @@
 import { NextRequest } from "next/server";
-import { config } from "@/lib/config";
+import { cached, cacheHeaders, filtersFromParams, filtersKey, normalizeQuery, searchWeb } from "@/lib/search";
 
 export const runtime = "nodejs";
 
 export async function GET(req: NextRequest) {
   const query = req.nextUrl.searchParams.get("q");
   if (!query) {
-    return Response.json({ error: "query required" }, { status: 400 });
+    return Response.json({ error: "query required", code: "bad_request" }, { status: 400 });
   }
 
-  const baseUrl = config.searchApiUrl;
-  if (!baseUrl) {
-    return Response.json({ error: "SEARCH_API_URL not configured", results: [] }, { status: 500 });
+  const parsed = filtersFromParams(req.nextUrl.searchParams);
+  if ("error" in parsed) {
+    return Response.json({ error: parsed.error, code: "bad_request" }, { status: 400 });
   }
 
-  try {
-    const res = await fetch(`${baseUrl}/search?q=${encodeURIComponent(query)}`, {
-      signal: AbortSignal.timeout(30000),
-    });
-    const data = await res.json();
-    return Response.json(data);
-  } catch (err) {
-    return Response.json({
-      error: err instanceof Error ? err.message : "Search API request failed",
-      results: [],
-    });
-  }
+  const { filters } = parsed;
+  const cursor = req.nextUrl.searchParams.get("cursor") || undefined;
+  const refresh = req.nextUrl.searchParams.get("refresh") === "1";
+  const variant = [filtersKey(filters), cursor].filter(Boolean).join("#");
+  const outcome = await cached("search", normalizeQuery(query), variant, () => searchWeb(query, filters, cursor), {
+    refresh,
+  });
+  return Response.json(outcome.body, { status: outcome.status, headers: cacheHeaders(outcome) });
 }
@@ -0,0 +1,57 @@
+import { NextRequest } from "next/server";
+import { promises as fs } from "fs";
+import path from "path";
+
+export const runtime = "nodejs";
+
+// Fixture store for the record/replay harness (@/lib/session-harness).
+// Recordings live in fixtures/sessions/<name>.json so they can be committed.
+// Development only — it writes to the project directory.
+
+const SESSIONS_DIR = path.join(process.cwd(), "fixtures", "sessions");
+
+function fileFor(name: string): string | null {
+  return /^[\w-]{1,64}$/.test(name) ? path.join(SESSIONS_DIR, `${name}.json`) : null;
+}
+
+function devOnly(): Response | null {
+  return process.env.NODE_ENV === "development"
+    ? null
+    : Response.json({ error: "Session fixtures are only available in development" }, { status: 404 });
+}
+
+// ?name=x returns that recording, otherwise the list of recording names
+export async function GET(req: NextRequest) {
+  const blocked = devOnly();
+  if (blocked) return blocked;
+
+  const name = req.nextUrl.searchParams.get("name");
+  if (!name) {
+    const files = await fs.readdir(SESSIONS_DIR).catch(() => [] as string[]);
+    return Response.json({ sessions: files.filter((f) => f.endsWith(".json")).map((f) => f.slice(0, -5)) });
+  }
+
+  const file = fileFor(name);
+  if (!file) return Response.json({ error: "Invalid session name" }, { status: 400 });
+  try {
+    return new Response(await fs.readFile(file, "utf8"), { headers: { "Content-Type": "application/json" } });
+  } catch {
+    return Response.json({ error: `No session named ${name}` }, { status: 404 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const blocked = devOnly();
+  if (blocked) return blocked;
+
+  const recording = await req.json().catch(() => null);
+  const file = typeof recording?.name === "string" ? fileFor(recording.name) : null;
+  if (!file || !Array.isArray(recording?.inputs) || !Array.isArray(recording?.exchanges)) {
+    return Response.json({ error: "Expected a session recording with a valid name" }, { status: 400 });
+  }
+
+  await fs.mkdir(SESSIONS_DIR, { recursive: true });
+  await fs.writeFile(file, JSON.stringify(recording, null, 2) + "\n");
+  console.log(`[sessions] Saved ${recording.name} (${recording.inputs.length} inputs, ${recording.exchanges.length} exchanges)`);
+  return Response.json({ saved: path.relative(process.cwd(), file) });
+}
@@ -1,29 +1,14 @@
 import { NextRequest } from "next/server";
-import { config } from "@/lib/config";
+import { searchSources } from "@/lib/search";
 
 export const runtime = "nodejs";
 
 export async function GET(req: NextRequest) {
   const query = req.nextUrl.searchParams.get("q");
   if (!query) {
-    return Response.json({ error: "query required" }, { status: 400 });
+    return Response.json({ error: "query required", code: "bad_request" }, { status: 400 });
   }
 
-  const baseUrl = config.searchApiUrl;
-  if (!baseUrl) {
-    return Response.json({ error: "SEARCH_API_URL not configured", sources: [] }, { status: 500 });
-  }
-
-  try {
-    const res = await fetch(`${baseUrl}/sources?q=${encodeURIComponent(query)}`, {
-      signal: AbortSignal.timeout(30000),
-    });
-    const data = await res.json();
-    return Response.json(data);
-  } catch (err) {
-    return Response.json({
-      error: err instanceof Error ? err.message : "Sources API request failed",
-      sources: [],
-    });
-  }
+  const { body, status, via } = await searchSources(query);
+  return Response.json(body, { status, headers: { "X-Search-Via": via } });
 }
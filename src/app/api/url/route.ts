@@ -1,5 +1,5 @@
 import { NextRequest } from "next/server";
-import { config } from "@/lib/config";
+import { cached, cacheHeaders, invalidateUrl, normalizeUrl, readUrl } from "@/lib/search";
 
 export const runtime = "nodejs";
 export const maxDuration = 30;
@@ -10,26 +10,17 @@ export async function GET(req: NextRequest) {
   const maxContent = req.nextUrl.searchParams.get("maxContent");
 
   if (!url) {
-    return Response.json({ error: "url parameter required. Usage: /api/url?url=https://example.com" }, { status: 400 });
+    return Response.json({ error: "url parameter required. Usage: /api/url?url=https://example.com", code: "bad_request" }, { status: 400 });
   }
 
-  const baseUrl = config.searchApiUrl;
-  if (!baseUrl) {
-    return Response.json({ error: "SEARCH_API_URL not configured" }, { status: 500 });
-  }
-
-  try {
-    const params = new URLSearchParams({ url });
-    if (raw) params.set("raw", raw);
-    if (maxContent) params.set("maxContent", maxContent);
-
-    const res = await fetch(`${baseUrl}/url?${params.toString()}`, {
-      signal: AbortSignal.timeout(25000),
-    });
-    const data = await res.json();
-    return Response.json(data, { status: res.status });
-  } catch (err) {
-    const message = err instanceof Error ? err.message : "Unknown error";
-    return Response.json({ error: message, url }, { status: 500 });
-  }
+  const options = {
+    raw: raw === "1",
+    maxContent: maxContent ? parseInt(maxContent) || undefined : undefined,
+  };
+  // A refresh re-reads the page for every caller, scrapes included
+  const refresh = req.nextUrl.searchParams.get("refresh") === "1";
+  if (refresh) invalidateUrl(url);
+  const variant = `${options.raw ? "raw" : ""}:${options.maxContent ?? ""}`;
+  const outcome = await cached("url", normalizeUrl(url), variant, () => readUrl(url, options), { refresh });
+  return Response.json(outcome.body, { status: outcome.status, headers: cacheHeaders(outcome) });
 }
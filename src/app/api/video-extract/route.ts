@@ -1,5 +1,5 @@
 import { NextRequest } from "next/server";
-import { config } from "@/lib/config";
+import { extractPageVideos } from "@/lib/search";
 
 export const runtime = "nodejs";
 export const maxDuration = 60;
@@ -7,23 +7,9 @@ export const maxDuration = 60;
 export async function GET(req: NextRequest) {
     const url = req.nextUrl.searchParams.get("url");
     if (!url) {
-        return Response.json({ error: "url parameter required" }, { status: 400 });
+        return Response.json({ error: "url parameter required", code: "bad_request" }, { status: 400 });
     }
 
-    const baseUrl = config.searchApiUrl;
-    if (!baseUrl) {
-        return Response.json({ error: "SEARCH_API_URL not configured" }, { status: 500 });
-    }
-
-    try {
-        const res = await fetch(
-            `${baseUrl}/video-extract?url=${encodeURIComponent(url)}`,
-            { signal: AbortSignal.timeout(55000) }
-        );
-        const data = await res.json();
-        return Response.json(data, { status: res.status });
-    } catch (err) {
-        const message = err instanceof Error ? err.message : "Unknown error";
-        return Response.json({ error: message }, { status: 500 });
-    }
+    const { body, status, via } = await extractPageVideos(url);
+    return Response.json(body, { status, headers: { "X-Search-Via": via } });
 }
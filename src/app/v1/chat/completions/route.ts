@@ -0,0 +1,83 @@
+import { NextRequest } from "next/server";
+import { openCascadeStream } from "@/lib/providers";
+import {
+  checkGatewayAuth,
+  collectCompletion,
+  completionMeta,
+  openAIError,
+  resolveModel,
+  toChatMessages,
+  toChunkStream,
+  toToolDefinitions,
+} from "@/lib/gateway";
+
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+// ---------------------------------------------------------------------------
+// OpenAI-compatible chat completions over Senko's provider cascade, so
+// OpenAI SDKs, scripts and editor plugins can use it as a gateway
+// (base URL http://host:3000/v1). Same fallback, circuit breaker and
+// mid-stream failover as /api/chat. `model` is "auto", a "provider:model"
+// id from /v1/models, or a bare model id; unknown models fall back to auto.
+// Requires `Authorization: Bearer $GATEWAY_API_KEY` when that is set.
+// ---------------------------------------------------------------------------
+
+export async function POST(req: NextRequest) {
+  const denied = checkGatewayAuth(req);
+  if (denied) return denied;
+
+  let body;
+  try {
+    body = await req.json();
+  } catch {
+    return openAIError(400, "Request body must be JSON.");
+  }
+
+  if (!Array.isArray(body?.messages) || body.messages.length === 0) {
+    return openAIError(400, "'messages' must be a non-empty array.");
+  }
+  if (typeof body.n === "number" && body.n !== 1) {
+    return openAIError(400, "Only n=1 is supported.");
+  }
+
+  try {
+    const result = await openCascadeStream({
+      messages: toChatMessages(body.messages),
+      tools: toToolDefinitions(body.tools),
+      pinned: resolveModel(body.model),
+      temperature: body.temperature,
+      maxTokens: body.max_completion_tokens ?? body.max_tokens,
+      signal: req.signal,
+    });
+
+    if (!result.ok) {
+      if (result.aborted) return new Response(null, { status: 499 });
+      const { error, retryAfter } = result;
+      return openAIError(503, error, "server_error", retryAfter ? { "Retry-After": String(retryAfter) } : undefined);
+    }
+
+    const meta = completionMeta();
+    const providerHeader = { "X-AI-Provider": `${result.provider.name} (${result.model})` };
+
+    if (body.stream === true) {
+      return new Response(toChunkStream(result.stream, meta, body.stream_options?.include_usage === true), {
+        headers: {
+          "Content-Type": "text/event-stream",
+          "Cache-Control": "no-cache, no-store",
+          Connection: "keep-alive",
+          ...providerHeader,
+        },
+      });
+    }
+
+    const collected = await collectCompletion(result.stream, meta);
+    if ("error" in collected) {
+      return openAIError(502, collected.error, "upstream_error", providerHeader);
+    }
+    return Response.json(collected.completion, { headers: providerHeader });
+  } catch (err) {
+    console.error("[v1] Unhandled error:", err instanceof Error ? err.message : err);
+    return openAIError(500, err instanceof Error ? err.message : "Internal error", "server_error");
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest } from "next/server";
+import { getProviderCascade } from "@/lib/providers";
+import { AUTO_MODEL, checkGatewayAuth } from "@/lib/gateway";
+
+export const runtime = "nodejs";
+
+// OpenAI-style model list for gateway clients: "auto" plus every
+// "provider:model" the cascade is configured to try
+export async function GET(req: NextRequest) {
+  const denied = checkGatewayAuth(req);
+  if (denied) return denied;
+
+  const created = Math.floor(Date.now() / 1000);
+  const ids = [AUTO_MODEL];
+  for (const provider of getProviderCascade()) {
+    for (const model of new Set([...(provider.reasoningModels?.() ?? []), ...provider.models()])) {
+      ids.push(`${provider.name}:${model}`);
+    }
+  }
+
+  return Response.json({
+    object: "list",
+    data: ids.map((id) => ({ id, object: "model", created, owned_by: id === AUTO_MODEL ? "senko" : id.split(":")[0] })),
+  });
+}
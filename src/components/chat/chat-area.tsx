@@ -5,13 +5,21 @@ import {
   Bot, Square, ArrowDown,
   Smile, Frown, Angry, PartyPopper, Moon, Utensils,
   Heart, Skull, Coffee, Brain, Gamepad2, Music,
-  Sparkles, Flame, Droplets, Zap,
+  Sparkles, Flame, Droplets, Zap, ScrollText,
   type LucideIcon,
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import { cn } from "@/lib/utils";
 import { ChatMessage } from "./chat-message";
 import { ChatInput, type AgentMode } from "./chat-input";
-import type { Message, SenkoStatus } from "@/types/chat";
+import { ConversationSummary } from "./conversation-summary";
+import type {
+  ConversationSummary as Summary,
+  GenerationSettings,
+  Message,
+  ModelProviderInfo,
+  SenkoStatus,
+} from "@/types/chat";
 
 const STATUS_ICON_MAP: Record<string, LucideIcon> = {
   happy: Smile,
@@ -41,13 +49,27 @@ interface ChatAreaProps {
   onStopGeneration?: () => void;
   onContinueGeneration?: () => void;
   onOpenLink?: (url: string) => void;
+  onInspectMessage?: (id: string) => void;
+  onPermissionDecision?: (messageId: string, requestId: string, approved: boolean, remember: boolean) => void;
+  onRefreshSource?: (messageId: string, url: string) => Promise<void>;
+  onRemoveSearchFilter?: (messageId: string, chipId: string) => Promise<void>;
+  onLoadMoreResults?: (messageId: string) => Promise<void>;
   sendWithEnter?: boolean;
   isStreaming?: boolean;
   tokenCount?: number;
+  // Context window of the model in use, when known
+  tokenLimit?: number;
+  summary?: Summary;
+  onSummaryChange?: (text: string) => void;
   wasCutOff?: boolean;
+  // Set while a browsing chain (page reads + follow-ups) is running
+  agentChain?: { step: number; maxSteps: number };
   status?: SenkoStatus;
   agentMode?: AgentMode;
   onAgentModeChange?: (mode: AgentMode) => void;
+  modelProviders?: ModelProviderInfo[];
+  generation?: GenerationSettings;
+  onGenerationChange?: (generation: GenerationSettings) => void;
 }
 
 function StatusPill({ status }: { status: SenkoStatus }) {
@@ -74,6 +96,13 @@ function StatusPill({ status }: { status: SenkoStatus }) {
   );
 }
 
+// 12345 -> "12.3k", 131072 -> "131k"
+function formatTokens(n: number): string {
+  if (n < 1000) return String(n);
+  const k = n / 1000;
+  return `${k < 100 ? k.toFixed(1).replace(/\.0$/, "") : Math.round(k)}k`;
+}
+
 const DEFAULT_STATUS: SenkoStatus = { icon: "chill", text: "just vibin~", color: "#00d4ff" };
 
 export function ChatArea({
@@ -84,16 +113,29 @@ export function ChatArea({
   onStopGeneration,
   onContinueGeneration,
   onOpenLink,
+  onInspectMessage,
+  onPermissionDecision,
+  onRefreshSource,
+  onRemoveSearchFilter,
+  onLoadMoreResults,
   sendWithEnter = true,
   isStreaming = false,
   tokenCount = 0,
+  tokenLimit,
+  summary,
+  onSummaryChange,
   wasCutOff = false,
+  agentChain,
   status,
   agentMode,
   onAgentModeChange,
+  modelProviders,
+  generation,
+  onGenerationChange,
 }: ChatAreaProps) {
   const scrollRef = useRef<HTMLDivElement>(null);
   const [showScrollBtn, setShowScrollBtn] = useState(false);
+  const [showSummary, setShowSummary] = useState(false);
 
   useEffect(() => {
     if (scrollRef.current && !showScrollBtn) {
@@ -115,6 +157,7 @@ export function ChatArea({
   };
 
   const showContinue = !isStreaming && wasCutOff;
+  const showStop = isStreaming || !!agentChain;
   const currentStatus = status || DEFAULT_STATUS;
 
   return (
@@ -124,13 +167,43 @@ export function ChatArea({
       <div className="shrink-0 border-b border-white/[0.06] bg-black/90 backdrop-blur-md">
         {/* Status pill row */}
         <div className="relative flex items-center justify-center py-2 px-4">
+          {summary && onSummaryChange && (
+            <button
+              onClick={() => setShowSummary((v) => !v)}
+              className="absolute left-4 top-1/2 -translate-y-1/2 flex items-center gap-1.5 rounded-lg px-2 py-1 text-[11px] font-medium text-zinc-600 hover:text-zinc-400 hover:bg-white/[0.06] transition-all"
+              title="View or edit the summary of earlier messages"
+            >
+              <ScrollText className="h-3.5 w-3.5" />
+              <span className="hidden sm:inline">Summary</span>
+            </button>
+          )}
           <StatusPill status={currentStatus} />
           {tokenCount > 0 && (
-            <span className="absolute right-4 top-1/2 -translate-y-1/2 text-[11px] text-zinc-600 font-medium hidden sm:block">
-              {tokenCount.toLocaleString()} tokens
+            <span
+              className={cn(
+                "absolute right-4 top-1/2 -translate-y-1/2 text-[11px] font-medium hidden sm:block",
+                tokenLimit && tokenCount / tokenLimit > 0.9
+                  ? "text-red-400/80"
+                  : tokenLimit && tokenCount / tokenLimit > 0.7
+                    ? "text-amber-400/70"
+                    : "text-zinc-600"
+              )}
+              title={tokenLimit ? `${Math.round((tokenCount / tokenLimit) * 100)}% of the model's context window` : undefined}
+            >
+              {tokenLimit
+                ? `${formatTokens(tokenCount)} / ${formatTokens(tokenLimit)} tokens`
+                : `${tokenCount.toLocaleString()} tokens`}
             </span>
           )}
         </div>
+        {showSummary && summary && onSummaryChange && (
+          <ConversationSummary
+            key={summary.updatedAt}
+            summary={summary}
+            onChange={onSummaryChange}
+            onClose={() => setShowSummary(false)}
+          />
+        )}
       </div>
 
       {/* ── CHAT AREA: scrollable messages ── */}
@@ -184,6 +257,11 @@ export function ChatArea({
                       : undefined
                   }
                   onOpenLink={onOpenLink}
+                  onInspect={onInspectMessage}
+                  onPermissionDecision={onPermissionDecision}
+                  onRefreshSource={onRefreshSource}
+                  onRemoveSearchFilter={onRemoveSearchFilter}
+                  onLoadMoreResults={onLoadMoreResults}
                 />
               ))}
             </div>
@@ -204,16 +282,18 @@ export function ChatArea({
       </div>
 
       {/* ── STOP / CONTINUE BAR ── */}
-      {(isStreaming || showContinue) && (
+      {(showStop || showContinue) && (
         <div className="shrink-0 flex justify-center gap-3 border-t border-white/[0.04] py-3">
-          {isStreaming && onStopGeneration && (
+          {showStop && onStopGeneration && (
             <Button
               size="sm"
               onClick={onStopGeneration}
               className="h-9 gap-2 rounded-xl bg-red-500/10 px-4 text-[13px] text-red-400 hover:bg-red-500/20 border border-red-500/20 font-medium transition-all"
             >
               <Square className="h-3.5 w-3.5" />
-              Stop generating
+              {agentChain && agentChain.step > 0
+                ? `Stop browsing (step ${agentChain.step}/${agentChain.maxSteps})`
+                : "Stop generating"}
             </Button>
           )}
           {showContinue && onContinueGeneration && (
@@ -235,6 +315,9 @@ export function ChatArea({
         disabled={isStreaming}
         agentMode={agentMode}
         onAgentModeChange={onAgentModeChange}
+        modelProviders={modelProviders}
+        generation={generation}
+        onGenerationChange={onGenerationChange}
       />
     </div>
   );
@@ -1,7 +1,7 @@
 "use client";
 
 import { useState, useRef } from "react";
-import { Send, Paperclip, Mic, Brain, MoreHorizontal } from "lucide-react";
+import { Send, Paperclip, Mic, Brain, MoreHorizontal, Cpu, Check, ChevronLeft } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import {
@@ -11,6 +11,7 @@ import {
   TooltipTrigger,
 } from "@/components/ui/tooltip";
 import { cn } from "@/lib/utils";
+import type { GenerationSettings, ModelProviderInfo } from "@/types/chat";
 
 export type AgentMode = "agent" | "thinking";
 
@@ -20,6 +21,9 @@ interface ChatInputProps {
   sendWithEnter?: boolean;
   agentMode?: AgentMode;
   onAgentModeChange?: (mode: AgentMode) => void;
+  modelProviders?: ModelProviderInfo[];
+  generation?: GenerationSettings;
+  onGenerationChange?: (generation: GenerationSettings) => void;
 }
 
 export function ChatInput({
@@ -28,9 +32,13 @@ export function ChatInput({
   sendWithEnter = true,
   agentMode = "agent",
   onAgentModeChange,
+  modelProviders = [],
+  generation,
+  onGenerationChange,
 }: ChatInputProps) {
   const [content, setContent] = useState("");
   const [showMenu, setShowMenu] = useState(false);
+  const [showModels, setShowModels] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const menuRef = useRef<HTMLDivElement>(null);
 
@@ -59,6 +67,13 @@ export function ChatInput({
   };
 
   const isThinking = agentMode === "thinking";
+  const pinnedModel = generation?.model;
+
+  const pickModel = (provider?: string, model?: string) => {
+    onGenerationChange?.({ ...generation, provider, model });
+    setShowModels(false);
+    setShowMenu(false);
+  };
 
   return (
     <div className="border-t border-white/[0.06] bg-[rgba(0,0,0,0.95)] px-3 py-3 pb-[max(1rem,env(safe-area-inset-bottom))] sm:px-5 sm:py-4 shrink-0">
@@ -71,7 +86,7 @@ export function ChatInput({
                 <Button
                   size="sm"
                   variant="ghost"
-                  onClick={() => setShowMenu(!showMenu)}
+                  onClick={() => { setShowMenu(!showMenu); setShowModels(false); }}
                   className={cn(
                     "mb-0.5 h-10 w-10 shrink-0 rounded-xl p-0 transition-colors",
                     showMenu ? "bg-white/10 text-zinc-200" : "text-zinc-500 hover:bg-white/5 hover:text-zinc-300"
@@ -87,11 +102,67 @@ export function ChatInput({
           </TooltipProvider>
 
           {/* Dropdown menu */}
-          {showMenu && (
+          {showMenu && showModels && (
+            <div
+              ref={menuRef}
+              className="absolute bottom-full left-0 mb-2 w-72 rounded-xl glass-panel-solid border border-white/[0.08] shadow-xl overflow-hidden animate-scale-in z-50"
+            >
+              <button
+                onClick={() => setShowModels(false)}
+                className="flex items-center gap-2 w-full px-3.5 py-2.5 text-[12px] font-medium text-zinc-400 hover:bg-white/[0.04] hover:text-zinc-200 transition-colors border-b border-white/[0.06]"
+              >
+                <ChevronLeft className="h-3.5 w-3.5" />
+                Model
+              </button>
+              <div className="max-h-72 overflow-y-auto scrollbar-thin py-1">
+                <ModelRow
+                  label="Auto"
+                  hint="Best available, with fallbacks"
+                  selected={!pinnedModel}
+                  onClick={() => pickModel(undefined, undefined)}
+                />
+                {modelProviders.map((p) => (
+                  <div key={p.name}>
+                    <div className="px-3.5 pt-2.5 pb-1 text-[10px] font-bold uppercase tracking-[0.12em] text-zinc-600">
+                      {p.label}{p.up === false ? " · offline" : ""}
+                    </div>
+                    {p.models.map((m) => (
+                      <ModelRow
+                        key={m.id}
+                        label={m.id}
+                        hint={[
+                          `${Math.round(m.contextWindow / 1024)}k context`,
+                          m.reasoning ? "reasoning" : "",
+                          m.coolingDown ? "cooling down" : "",
+                        ].filter(Boolean).join(" · ")}
+                        selected={generation?.provider === p.name && pinnedModel === m.id}
+                        disabled={p.up === false}
+                        onClick={() => pickModel(p.name, m.id)}
+                      />
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {showMenu && !showModels && (
             <div
               ref={menuRef}
               className="absolute bottom-full left-0 mb-2 w-48 rounded-xl glass-panel-solid border border-white/[0.08] shadow-xl overflow-hidden animate-scale-in z-50"
             >
+              {onGenerationChange && (
+                <button
+                  onClick={() => setShowModels(true)}
+                  className="flex items-center gap-2.5 w-full px-3.5 py-2.5 text-[13px] text-zinc-400 hover:bg-white/[0.04] hover:text-zinc-200 transition-colors text-left border-b border-white/[0.06]"
+                >
+                  <Cpu className="h-4 w-4 shrink-0" />
+                  <div className="min-w-0">
+                    <div className="font-medium">Model</div>
+                    <div className="text-[11px] opacity-60 truncate">{pinnedModel ?? "Auto"}</div>
+                  </div>
+                </button>
+              )}
               <button
                 onClick={() => {
                   onAgentModeChange?.(isThinking ? "agent" : "thinking");
@@ -137,7 +208,7 @@ export function ChatInput({
           value={content}
           onChange={handleInput}
           onKeyDown={handleKeyDown}
-          onClick={() => setShowMenu(false)}
+          onClick={() => { setShowMenu(false); setShowModels(false); }}
           placeholder={isThinking ? "Ask something to reason about..." : "Message Senko AI..."}
           disabled={disabled}
           className="min-h-[44px] max-h-[200px] flex-1 resize-none border-0 bg-transparent px-3 py-2.5 text-[15px] text-zinc-200 placeholder:text-zinc-500 focus-visible:ring-0 focus-visible:ring-offset-0"
@@ -145,6 +216,17 @@ export function ChatInput({
         />
 
         <div className="flex items-end gap-1">
+          {/* Pinned model indicator */}
+          {pinnedModel && (
+            <div
+              className="mb-1.5 hidden sm:flex items-center gap-1 rounded-lg bg-white/[0.04] border border-white/[0.08] px-2 py-1 max-w-[140px]"
+              title={`${generation?.provider} · ${pinnedModel}`}
+            >
+              <Cpu className="h-3 w-3 shrink-0 text-zinc-500" />
+              <span className="text-[10px] text-zinc-400 font-medium truncate">{pinnedModel.split("/").pop()}</span>
+            </div>
+          )}
+
           {/* Thinking mode indicator */}
           {isThinking && (
             <div className="mb-1.5 flex items-center gap-1 rounded-lg bg-purple-500/10 border border-purple-500/20 px-2 py-1">
@@ -179,3 +261,34 @@ export function ChatInput({
     </div>
   );
 }
+
+function ModelRow({
+  label,
+  hint,
+  selected,
+  disabled = false,
+  onClick,
+}: {
+  label: string;
+  hint: string;
+  selected: boolean;
+  disabled?: boolean;
+  onClick: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      className={cn(
+        "flex items-center gap-2.5 w-full px-3.5 py-2 text-left transition-colors disabled:opacity-40 disabled:pointer-events-none",
+        selected ? "bg-[var(--senko-accent)]/10 text-[var(--senko-accent)]" : "text-zinc-400 hover:bg-white/[0.04] hover:text-zinc-200"
+      )}
+    >
+      <div className="min-w-0 flex-1">
+        <div className="text-[12px] font-medium truncate">{label}</div>
+        {hint && <div className="text-[10px] opacity-60 truncate">{hint}</div>}
+      </div>
+      {selected && <Check className="h-3.5 w-3.5 shrink-0" />}
+    </button>
+  );
+}
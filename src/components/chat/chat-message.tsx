@@ -1,22 +1,43 @@
 "use client";
 
-import { useState, useRef, useEffect } from "react";
-import { Pencil, Check, Copy, RotateCcw, Globe, AlertTriangle } from "lucide-react";
+import { useState, useRef, useEffect, type ComponentType } from "react";
+import { Pencil, Check, Copy, RotateCcw, RefreshCw, Globe, AlertTriangle, Brain, ChevronDown, ArrowLeftRight, Activity, X } from "lucide-react";
 import { Textarea } from "@/components/ui/textarea";
 import { cn } from "@/lib/utils";
+import { visibleText } from "@/lib/senko-tags";
+import type { ActionAttachmentProps } from "@/lib/actions";
+import { chipsFor } from "@/lib/search/filters";
 import { MarkdownRenderer } from "./markdown-renderer";
 import { MapEmbed } from "./map-embed";
 import { ImageCarousel } from "./image-carousel";
 import { GifCarousel } from "./gif-carousel";
 import { VideoEmbed } from "./video-embed";
 import { WebEmbed } from "./web-embed";
+import { PermissionCard } from "./permission-card";
+import { McpResultCard } from "./mcp-result";
 import type { Message } from "@/types/chat";
 
+// Cards for the data actions attach to a reply, by action type
+const ACTION_RENDERERS: Record<string, ComponentType<ActionAttachmentProps>> = {
+  MCP: McpResultCard,
+  MCP_READ: McpResultCard,
+};
+
 interface ChatMessageProps {
   message: Message;
   onEdit: (id: string, newContent: string) => void;
   onRegenerate?: (id: string) => void;
   onOpenLink?: (url: string) => void;
+  // Opens this reply's agent trace in the sidebar
+  onInspect?: (id: string) => void;
+  // Answers an approve/deny card on this reply
+  onPermissionDecision?: (messageId: string, requestId: string, approved: boolean, remember: boolean) => void;
+  // Re-reads a source page past the server cache
+  onRefreshSource?: (messageId: string, url: string) => Promise<void>;
+  // Searches again without one of the reply's filter chips
+  onRemoveSearchFilter?: (messageId: string, chipId: string) => Promise<void>;
+  // Appends the search's next page of results to the sources
+  onLoadMoreResults?: (messageId: string) => Promise<void>;
 }
 
 function getFaviconUrl(url: string): string {
@@ -32,10 +53,14 @@ function hasRichContent(content: string): boolean {
   return /```|^\s*[-*]\s|^\s*\d+\.\s|^#{1,3}\s|\*\*|__|\|.*\|/m.test(content);
 }
 
-export function ChatMessage({ message, onEdit, onRegenerate, onOpenLink }: ChatMessageProps) {
+export function ChatMessage({ message, onEdit, onRegenerate, onOpenLink, onInspect, onPermissionDecision, onRefreshSource, onRemoveSearchFilter, onLoadMoreResults }: ChatMessageProps) {
   const [isEditing, setIsEditing] = useState(false);
+  const [refreshing, setRefreshing] = useState<string[]>([]);
+  const [removingChip, setRemovingChip] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
   const [editContent, setEditContent] = useState(message.content);
   const [copied, setCopied] = useState(false);
+  const [showThoughts, setShowThoughts] = useState(false);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
 
   useEffect(() => {
@@ -66,6 +91,36 @@ export function ChatMessage({ message, onEdit, onRegenerate, onOpenLink }: ChatM
     setTimeout(() => setCopied(false), 1500);
   };
 
+  const handleRefreshSource = async (url: string) => {
+    if (!onRefreshSource || refreshing.includes(url)) return;
+    setRefreshing((prev) => [...prev, url]);
+    try {
+      await onRefreshSource(message.id, url);
+    } finally {
+      setRefreshing((prev) => prev.filter((u) => u !== url));
+    }
+  };
+
+  const handleRemoveChip = async (chipId: string) => {
+    if (!onRemoveSearchFilter || removingChip) return;
+    setRemovingChip(chipId);
+    try {
+      await onRemoveSearchFilter(message.id, chipId);
+    } finally {
+      setRemovingChip(null);
+    }
+  };
+
+  const handleLoadMore = async () => {
+    if (!onLoadMoreResults || loadingMore) return;
+    setLoadingMore(true);
+    try {
+      await onLoadMoreResults(message.id);
+    } finally {
+      setLoadingMore(false);
+    }
+  };
+
   const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
@@ -77,14 +132,19 @@ export function ChatMessage({ message, onEdit, onRegenerate, onOpenLink }: ChatM
   const isUser = message.role === "user";
   const isThinking = message.isThinking;
   const hasSources = message.sources && message.sources.length > 0;
+  const searchChips = message.search ? chipsFor(message.search.filters) : [];
+  // The first page stays compact; once more are loaded, every source is shown
+  const shownSources = (message.search?.page ?? 1) > 1 ? message.sources ?? [] : (message.sources ?? []).slice(0, 8);
   const hasImages = message.images && message.images.length > 0;
   const hasVideos = message.videos && message.videos.length > 0;
   const hasWebEmbeds = message.webEmbeds && message.webEmbeds.length > 0;
   const hasGifs = message.gifs && message.gifs.length > 0;
   const hasMap = !!message.mapEmbed;
   const hasAttachments = hasSources || hasImages || hasVideos || hasWebEmbeds || hasMap || hasGifs;
-  const isRich = !isUser && hasRichContent(message.content);
-  const isShort = message.content.length < 80 && !message.content.includes("\n");
+  // Replies stream in with their [ACTION:...] / [STATUS:...] tags; never show those
+  const content = isUser ? message.content : visibleText(message.content);
+  const isRich = !isUser && hasRichContent(content);
+  const isShort = content.length < 80 && !content.includes("\n");
 
   // -- Thinking state (ghost thoughts / loading process) --
   if (isThinking) {
@@ -160,6 +220,9 @@ export function ChatMessage({ message, onEdit, onRegenerate, onOpenLink }: ChatM
 
   // -- Assistant message --
   const hasError = !!message.error;
+  const hasReasoning = !!message.reasoning?.trim();
+  // Still reasoning: nothing to show but thoughts yet
+  const isReasoning = hasReasoning && !content;
 
   return (
     <div className="flex flex-col w-full px-3 py-2 items-start group sm:px-6">
@@ -176,11 +239,30 @@ export function ChatMessage({ message, onEdit, onRegenerate, onOpenLink }: ChatM
               : "max-w-[92%] sm:max-w-[78%] depth-shadow"
       )}>
         {/* Inner padding wrapper — only render if there's content or an error */}
-        {(message.content || hasError) && (
+        {(content || hasError || hasReasoning) && (
           <div className={cn(
             "relative",
             hasAttachments || isRich ? "px-6 py-5" : "px-5 py-4"
           )}>
+            {/* Thoughts (reasoning tokens) - collapsed by default */}
+            {hasReasoning && (
+              <div className={cn(content || hasError ? "mb-4" : "")}>
+                <button
+                  onClick={() => setShowThoughts((v) => !v)}
+                  className="flex items-center gap-2 text-[12px] font-semibold uppercase tracking-[0.12em] text-zinc-500 hover:text-zinc-300 transition-colors"
+                >
+                  <Brain className={cn("h-3.5 w-3.5 text-[var(--senko-accent)]/60", isReasoning && "animate-pulse")} />
+                  {isReasoning ? "Thinking..." : "Thoughts"}
+                  <ChevronDown className={cn("h-3.5 w-3.5 transition-transform", showThoughts && "rotate-180")} />
+                </button>
+                {showThoughts && (
+                  <p className="mt-2 max-h-[320px] overflow-y-auto scrollbar-thin whitespace-pre-wrap border-l-2 border-white/[0.08] pl-3 text-[13px] leading-relaxed text-zinc-500">
+                    {message.reasoning!.trim()}
+                  </p>
+                )}
+              </div>
+            )}
+
             {/* Error banner */}
             {hasError && (
               <div className="mb-4 flex items-start gap-3 rounded-xl bg-red-500/[0.08] border border-red-500/[0.12] px-4 py-3">
@@ -193,13 +275,13 @@ export function ChatMessage({ message, onEdit, onRegenerate, onOpenLink }: ChatM
             )}
 
             {/* Content */}
-            {message.content && (isRich ? (
+            {content && (isRich ? (
               <div className="text-[15px] leading-[1.75] text-white/95">
-                <MarkdownRenderer content={message.content} />
+                <MarkdownRenderer content={content} />
               </div>
             ) : (
               <p className="whitespace-pre-wrap text-[15px] leading-[1.7] text-white/95">
-                {message.content}
+                {content}
               </p>
             ))}
           </div>
@@ -227,38 +309,94 @@ export function ChatMessage({ message, onEdit, onRegenerate, onOpenLink }: ChatM
         {hasSources && (
           <div className={cn(
             "relative px-5 py-4 sm:px-6 sm:py-4",
-            message.content ? "border-t border-white/[0.06]" : ""
+            content ? "border-t border-white/[0.06]" : ""
           )}>
             <div className="flex items-center gap-2.5 mb-3">
               <Globe className="h-4 w-4 text-[var(--senko-accent)]/60" />
               <span className="text-[12px] font-bold uppercase tracking-[0.15em] text-zinc-400">Sources</span>
               <span className="text-[11px] text-zinc-500 ml-auto font-medium">{message.sources!.length}</span>
             </div>
+            {searchChips.length > 0 && (
+              <div className="flex flex-wrap gap-1.5 mb-3">
+                {searchChips.map((chip) => {
+                  const ignored = message.search!.ignored?.includes(chip.filter);
+                  return (
+                    <span
+                      key={chip.id}
+                      className={cn(
+                        "flex items-center gap-1 rounded-full border border-[var(--senko-accent)]/20 bg-[var(--senko-accent)]/10 py-0.5 pl-2.5 pr-1 text-[11px] font-medium text-zinc-300",
+                        ignored && "opacity-50 line-through",
+                        removingChip === chip.id && "animate-pulse"
+                      )}
+                      title={ignored ? "The search engine that answered couldn't apply this filter" : undefined}
+                    >
+                      {chip.label}
+                      {onRemoveSearchFilter && (
+                        <button
+                          onClick={() => handleRemoveChip(chip.id)}
+                          disabled={!!removingChip}
+                          className="flex h-4 w-4 items-center justify-center rounded-full text-zinc-500 hover:bg-white/[0.08] hover:text-white transition-colors disabled:opacity-50"
+                          title="Remove filter and search again"
+                          aria-label={`Remove filter ${chip.label}`}
+                        >
+                          <X className="h-3 w-3" />
+                        </button>
+                      )}
+                    </span>
+                  );
+                })}
+              </div>
+            )}
             <div className="flex flex-wrap gap-2 overflow-hidden">
-              {message.sources!.slice(0, 8).map((source, i) => (
-                <a
-                  key={i}
-                  href={source.url}
-                  target="_blank"
-                  rel="noopener noreferrer"
-                  onClick={() => { if (onOpenLink) onOpenLink(source.url); }}
-                  className="group/source glass-pill flex items-center gap-2 rounded-lg px-3 py-1.5 text-[12px] text-zinc-300 max-w-[200px] shrink-0 cursor-pointer hover:bg-white/[0.06] transition-colors"
-                  title={source.snippet || source.title}
-                >
-                  <span className="relative h-4 w-4 shrink-0">
-                    {/* eslint-disable-next-line @next/next/no-img-element */}
-                    <img
-                      src={source.favicon || getFaviconUrl(source.url)}
-                      alt=""
-                      className="h-4 w-4 rounded-sm"
-                      onError={(e) => { (e.target as HTMLImageElement).style.display = "none"; (e.target as HTMLImageElement).nextElementSibling?.classList.remove("hidden"); }}
-                    />
-                    <Globe className="h-4 w-4 text-zinc-500 absolute inset-0 hidden" />
-                  </span>
-                  <span className="truncate font-medium">{source.title}</span>
-                </a>
+              {shownSources.map((source, i) => (
+                <div key={i} className="group/pill relative shrink-0">
+                  <a
+                    href={source.url}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    onClick={() => { if (onOpenLink) onOpenLink(source.url); }}
+                    className="group/source glass-pill flex items-center gap-2 rounded-lg px-3 py-1.5 text-[12px] text-zinc-300 max-w-[200px] shrink-0 cursor-pointer hover:bg-white/[0.06] transition-colors"
+                    title={source.snippet || source.title}
+                  >
+                    <span className="relative h-4 w-4 shrink-0">
+                      {/* eslint-disable-next-line @next/next/no-img-element */}
+                      <img
+                        src={source.favicon || getFaviconUrl(source.url)}
+                        alt=""
+                        className="h-4 w-4 rounded-sm"
+                        onError={(e) => { (e.target as HTMLImageElement).style.display = "none"; (e.target as HTMLImageElement).nextElementSibling?.classList.remove("hidden"); }}
+                      />
+                      <Globe className="h-4 w-4 text-zinc-500 absolute inset-0 hidden" />
+                    </span>
+                    <span className="truncate font-medium">{source.title}</span>
+                  </a>
+                  {onRefreshSource && (
+                    <button
+                      onClick={() => handleRefreshSource(source.url)}
+                      disabled={refreshing.includes(source.url)}
+                      className={cn(
+                        "absolute right-1 top-1/2 h-5 w-5 -translate-y-1/2 items-center justify-center rounded-md bg-zinc-900/90 text-zinc-400 hover:text-white transition-colors",
+                        refreshing.includes(source.url) ? "flex" : "hidden group-hover/pill:flex"
+                      )}
+                      title="Refresh (skip the cache)"
+                      aria-label={`Refresh ${source.title}`}
+                    >
+                      <RefreshCw className={cn("h-3 w-3", refreshing.includes(source.url) && "animate-spin")} />
+                    </button>
+                  )}
+                </div>
               ))}
             </div>
+            {onLoadMoreResults && message.search?.cursor && (
+              <button
+                onClick={handleLoadMore}
+                disabled={loadingMore}
+                className="mt-3 flex items-center gap-1.5 rounded-lg px-3 py-1.5 text-[12px] font-medium text-zinc-400 hover:bg-white/[0.06] hover:text-white transition-colors disabled:opacity-60"
+              >
+                <ChevronDown className={cn("h-3.5 w-3.5", loadingMore && "animate-bounce")} />
+                {loadingMore ? "Loading more..." : "Load more"}
+              </button>
+            )}
           </div>
         )}
 
@@ -271,6 +409,29 @@ export function ChatMessage({ message, onEdit, onRegenerate, onOpenLink }: ChatM
 
       </div>
 
+      {/* Attachments from plugin actions */}
+      {message.attachments?.map((attachment, i) => {
+        const Render = ACTION_RENDERERS[attachment.action];
+        return Render ? (
+          <div key={`${attachment.action}-${i}`} className="w-full mt-3">
+            <Render data={attachment.data} message={message} />
+          </div>
+        ) : null;
+      })}
+
+      {/* Permission cards for actions waiting on the user */}
+      {message.permissions?.length ? (
+        <div className="mt-2 flex w-full flex-col gap-2">
+          {message.permissions.map((request) => (
+            <PermissionCard
+              key={request.id}
+              request={request}
+              onDecide={(approved, remember) => onPermissionDecision?.(message.id, request.id, approved, remember)}
+            />
+          ))}
+        </div>
+      ) : null}
+
       {/* Action bar — outside bubble so overflow-hidden doesn't clip it */}
       <div className="flex gap-2 mt-1 ml-2 opacity-0 group-hover:opacity-100 transition-opacity">
         <button onClick={handleCopy} className="rounded-lg p-2 text-zinc-600 hover:text-zinc-400 hover:bg-white/[0.06] transition-all">
@@ -281,6 +442,32 @@ export function ChatMessage({ message, onEdit, onRegenerate, onOpenLink }: ChatM
             <RotateCcw className="h-4 w-4" />
           </button>
         )}
+        {onInspect && message.trace && (
+          <button
+            onClick={() => onInspect(message.id)}
+            title="Inspect agent trace"
+            className="rounded-lg p-2 text-zinc-600 hover:text-zinc-400 hover:bg-white/[0.06] transition-all"
+          >
+            <Activity className="h-4 w-4" />
+          </button>
+        )}
+        {message.provider && (
+          <span
+            className="self-center flex items-center gap-1.5 text-[11px] text-zinc-600 font-medium truncate max-w-[280px]"
+            title={message.promptVersion ? `Prompt ${message.promptVersion}` : undefined}
+          >
+            {message.providerSwitches?.length ? (
+              <span
+                className="flex items-center gap-1 text-amber-500/70"
+                title={message.providerSwitches.map((s) => `${s.from} → ${s.to}: ${s.reason}`).join("\n")}
+              >
+                <ArrowLeftRight className="h-3 w-3" />
+                switched
+              </span>
+            ) : null}
+            {message.model ? `${message.provider} · ${message.model}` : message.provider}
+          </span>
+        )}
       </div>
 
       {/* Images - full chat width */}
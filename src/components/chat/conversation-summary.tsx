@@ -0,0 +1,61 @@
+"use client";
+
+import { useState } from "react";
+import { Check, ScrollText, Trash2, X } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import type { ConversationSummary as Summary } from "@/types/chat";
+
+interface ConversationSummaryProps {
+  summary: Summary;
+  onChange: (text: string) => void;
+  onClose: () => void;
+}
+
+// Rolling summary of older turns, shown under the chat header. Editing it
+// changes what the model remembers about the earlier conversation.
+export function ConversationSummary({ summary, onChange, onClose }: ConversationSummaryProps) {
+  const [draft, setDraft] = useState(summary.text);
+  const dirty = draft.trim() !== summary.text.trim();
+
+  return (
+    <div className="border-t border-white/[0.06] px-4 py-3 animate-slide-in">
+      <div className="mx-auto max-w-4xl">
+        <div className="flex items-center gap-2.5 mb-2">
+          <ScrollText className="h-4 w-4 text-[var(--senko-accent)]/60" />
+          <span className="text-[12px] font-bold uppercase tracking-[0.15em] text-zinc-400">Summary</span>
+          <span className="text-[11px] text-zinc-600 font-medium">
+            {summary.coveredCount} earlier messages{summary.edited ? " · edited" : ""}
+          </span>
+          <button
+            onClick={onClose}
+            className="ml-auto rounded-lg p-1.5 text-zinc-600 hover:text-zinc-400 hover:bg-white/[0.06] transition-all"
+          >
+            <X className="h-3.5 w-3.5" />
+          </button>
+        </div>
+        <Textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          className="min-h-[96px] max-h-[240px] resize-none rounded-xl bg-black/20 border-white/[0.06] text-[13px] leading-relaxed text-zinc-300 focus-visible:ring-0 focus-visible:ring-offset-0 scrollbar-thin"
+          rows={5}
+        />
+        <div className="mt-2 flex gap-2">
+          <button
+            onClick={() => onChange(draft)}
+            disabled={!dirty}
+            className="rounded-xl px-3.5 py-1.5 text-[12px] font-semibold text-[var(--senko-accent)] bg-[var(--senko-accent)]/15 hover:bg-[var(--senko-accent)]/25 disabled:opacity-40 disabled:pointer-events-none transition-all"
+          >
+            <Check className="inline h-3.5 w-3.5 mr-1" />Save
+          </button>
+          <button
+            onClick={() => { onChange(""); onClose(); }}
+            className="rounded-xl px-3.5 py-1.5 text-[12px] text-zinc-500 hover:text-red-400 transition-colors"
+            title="Forget the summary and send the full history again"
+          >
+            <Trash2 className="inline h-3.5 w-3.5 mr-1" />Clear
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,62 @@
+"use client";
+
+import { Plug, FileText, AlertTriangle } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ActionAttachmentProps } from "@/lib/actions";
+import type { McpResult } from "@/lib/mcp/shared";
+
+// Attachment renderer for the MCP and MCP_READ actions
+export function McpResultCard({ data }: ActionAttachmentProps) {
+  const result = data as McpResult;
+  if (!result?.content) return null;
+  const Icon = result.isError ? AlertTriangle : result.kind === "resource" ? FileText : Plug;
+
+  return (
+    <details
+      open={result.isError || undefined}
+      className={cn(
+        "glass-bubble group w-full max-w-[92%] rounded-2xl px-4 py-2.5 sm:max-w-[560px]",
+        result.isError && "border-red-500/20"
+      )}
+    >
+      <summary className="flex cursor-pointer list-none items-center gap-2 text-[12px]">
+        <Icon className={cn("h-3.5 w-3.5 shrink-0", result.isError ? "text-red-400" : "text-[var(--senko-accent)]")} />
+        <span className="shrink-0 font-medium text-zinc-300">{result.server}</span>
+        <span className="truncate font-mono text-zinc-500" title={result.target}>{result.target}</span>
+        <span className="ml-auto shrink-0 text-[11px] text-zinc-600 group-open:hidden">
+          {result.isError ? "failed" : "show result"}
+        </span>
+      </summary>
+
+      <div className="mt-2 flex flex-col gap-2">
+        {result.content.map((item, i) => {
+          if (item.type === "image") {
+            return (
+              // eslint-disable-next-line @next/next/no-img-element
+              <img
+                key={i}
+                src={`data:${item.mimeType};base64,${item.data}`}
+                alt={`${result.target} output`}
+                className="max-h-[320px] rounded-lg object-contain"
+              />
+            );
+          }
+          const text = item.text;
+          return (
+            <div key={i} className="min-w-0">
+              {item.type === "resource" && (
+                <p className="mb-1 truncate font-mono text-[11px] text-zinc-600" title={item.uri}>{item.uri}</p>
+              )}
+              {text ? (
+                <pre className="max-h-[280px] overflow-auto whitespace-pre-wrap break-words rounded-lg bg-black/20 px-3 py-2 font-mono text-[11px] leading-relaxed text-zinc-400">
+                  {text}
+                </pre>
+              ) : null}
+            </div>
+          );
+        })}
+        {result.content.length === 0 && <p className="text-[11px] text-zinc-600">No output</p>}
+      </div>
+    </details>
+  );
+}
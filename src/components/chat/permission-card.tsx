@@ -0,0 +1,91 @@
+"use client";
+
+import { useState } from "react";
+import { AppWindow, ExternalLink, FileText, PanelTop, Plug, ShieldQuestion, Check, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ActionPermissionRequest, GuardedAction } from "@/types/chat";
+
+interface PermissionCardProps {
+  request: ActionPermissionRequest;
+  onDecide: (approved: boolean, remember: boolean) => void;
+}
+
+const ACTION_ICONS: Record<GuardedAction, typeof AppWindow> = {
+  OPEN_APP: AppWindow,
+  OPEN_URL: ExternalLink,
+  OPEN_TAB: PanelTop,
+  MCP: Plug,
+  MCP_READ: FileText,
+};
+
+function describe(request: ActionPermissionRequest): string {
+  if (request.action === "OPEN_APP") return `Senko wants to open "${request.target}" on your device`;
+  if (request.action === "OPEN_TAB") return `Senko wants to open a new tab on ${request.scope}`;
+  if (request.action === "MCP") return `Senko wants to run the MCP tool ${request.scope}`;
+  if (request.action === "MCP_READ") return `Senko wants to read from the MCP server "${request.scope}"`;
+  return `Senko wants to open ${request.scope}`;
+}
+
+const STATUS_LABELS: Record<ActionPermissionRequest["status"], string> = {
+  pending: "Waiting",
+  approved: "Allowed",
+  denied: "Denied",
+  expired: "No longer waiting",
+};
+
+export function PermissionCard({ request, onDecide }: PermissionCardProps) {
+  const [remember, setRemember] = useState(false);
+  const Icon = ACTION_ICONS[request.action];
+  const pending = request.status === "pending";
+
+  return (
+    <div
+      className={cn(
+        "glass-bubble w-full max-w-[92%] rounded-2xl px-4 py-3 sm:max-w-[420px]",
+        pending ? "border-amber-500/20" : "opacity-60"
+      )}
+    >
+      <div className="flex items-start gap-3">
+        <div className="flex h-8 w-8 shrink-0 items-center justify-center rounded-xl bg-amber-500/10">
+          {pending ? <ShieldQuestion className="h-4 w-4 text-amber-400" /> : <Icon className="h-4 w-4 text-zinc-500" />}
+        </div>
+        <div className="min-w-0 flex-1">
+          <p className="text-[13px] font-medium text-zinc-200">{describe(request)}</p>
+          {request.action !== "OPEN_APP" && (
+            <p className="truncate text-[11px] text-zinc-600" title={request.target}>{request.target}</p>
+          )}
+        </div>
+      </div>
+
+      {pending ? (
+        <div className="mt-3 flex items-center gap-2">
+          <label className="mr-auto flex items-center gap-1.5 text-[11px] text-zinc-500 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={remember}
+              onChange={(e) => setRemember(e.target.checked)}
+              className="accent-[var(--senko-accent)]"
+            />
+            Remember for {request.scope}
+          </label>
+          <button
+            onClick={() => onDecide(false, remember)}
+            className="flex h-7 items-center gap-1 rounded-lg px-2.5 text-[12px] font-medium text-zinc-400 hover:bg-white/[0.06] hover:text-zinc-200 transition-all"
+          >
+            <X className="h-3.5 w-3.5" />
+            Deny
+          </button>
+          <button
+            onClick={() => onDecide(true, remember)}
+            className="flex h-7 items-center gap-1 rounded-lg bg-[var(--senko-accent)]/15 px-2.5 text-[12px] font-medium text-[var(--senko-accent)] hover:bg-[var(--senko-accent)]/25 transition-all"
+          >
+            <Check className="h-3.5 w-3.5" />
+            Allow
+          </button>
+        </div>
+      ) : (
+        <p className="mt-2 text-[11px] text-zinc-500">{STATUS_LABELS[request.status]}</p>
+      )}
+    </div>
+  );
+}
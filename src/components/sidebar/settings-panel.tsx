@@ -17,6 +17,10 @@ import {
   RefreshCw,
   Type,
   CornerDownLeft,
+  Thermometer,
+  Hash,
+  ShieldCheck,
+  X,
 } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
 import { Badge } from "@/components/ui/badge";
@@ -25,11 +29,18 @@ import { Separator } from "@/components/ui/separator";
 import { useBrowserInfo } from "@/hooks/use-browser-info";
 import { useLocation } from "@/hooks/use-location";
 import { usePermissions } from "@/hooks/use-permissions";
-import type { AppSettings } from "@/types/chat";
+import type { GenerationDefaults } from "@/hooks/use-models";
+import { DEFAULT_ACTION_POLICY, GUARDED_ACTIONS, forgetDecision } from "@/lib/action-policy";
+import type { AppSettings, GenerationSettings, ModelProviderInfo } from "@/types/chat";
 
 interface SettingsPanelProps {
   settings: AppSettings;
   onSettingsChange: (settings: AppSettings) => void;
+  generation?: GenerationSettings;
+  generationDefaults?: GenerationDefaults;
+  modelProviders?: ModelProviderInfo[];
+  onGenerationChange?: (generation: GenerationSettings) => void;
+  onRefreshModels?: () => void;
 }
 
 function getDeviceType(userAgent: string): string {
@@ -92,6 +103,11 @@ function StateIndicator({ state }: { state: string }) {
 export function SettingsPanel({
   settings,
   onSettingsChange,
+  generation = {},
+  generationDefaults = { temperature: 0.7, maxTokens: 8192 },
+  modelProviders = [],
+  onGenerationChange,
+  onRefreshModels,
 }: SettingsPanelProps) {
   const browserInfo = useBrowserInfo();
   const { location, loading: locationLoading, requestLocation } = useLocation();
@@ -108,9 +124,96 @@ export function SettingsPanel({
     onSettingsChange({ ...settings, [key]: value });
   };
 
+  const updateGeneration = (patch: Partial<GenerationSettings>) => {
+    onGenerationChange?.({ ...generation, ...patch });
+  };
+
+  // Option values are "provider:model" — provider names never contain a colon
+  const selectedModel = generation.model ? `${generation.provider}:${generation.model}` : "";
+  const temperature = generation.temperature ?? generationDefaults.temperature;
+
   return (
     <div className="scrollbar-thin h-full overflow-y-auto">
       <div className="space-y-5 px-4 py-4">
+        {/* Model — per conversation */}
+        {onGenerationChange && (
+          <>
+            <section>
+              <div className="mb-2 flex items-center justify-between">
+                <h3 className="flex items-center gap-2 text-[11px] font-bold uppercase tracking-[0.12em] text-zinc-500">
+                  <Cpu className="h-4 w-4" />
+                  Model
+                </h3>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => onRefreshModels?.()}
+                  className="h-7 w-7 rounded-lg p-0 text-zinc-600 hover:bg-white/5 hover:text-zinc-400"
+                >
+                  <RefreshCw className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+              <div className="glass-panel rounded-xl p-4 space-y-3.5">
+                <select
+                  value={selectedModel}
+                  onChange={(e) => {
+                    const value = e.target.value;
+                    const i = value.indexOf(":");
+                    updateGeneration(i === -1 ? { provider: undefined, model: undefined } : { provider: value.slice(0, i), model: value.slice(i + 1) });
+                  }}
+                  className="h-8 w-full rounded-lg border border-white/[0.08] bg-black/40 px-2 text-[12px] text-zinc-300 outline-none focus:border-[var(--senko-accent)]/40"
+                >
+                  <option value="">Auto (best available)</option>
+                  {modelProviders.map((p) => (
+                    <optgroup key={p.name} label={p.up === false ? `${p.label} (offline)` : p.label}>
+                      {p.models.map((m) => (
+                        <option key={m.id} value={`${p.name}:${m.id}`} disabled={p.up === false}>
+                          {m.id}{m.coolingDown ? " (cooling down)" : ""}
+                        </option>
+                      ))}
+                    </optgroup>
+                  ))}
+                </select>
+                <div className="space-y-1.5">
+                  <div className="flex items-center gap-2 text-xs text-zinc-400">
+                    <Thermometer className="h-3 w-3" />
+                    <span>Temperature</span>
+                    <span className="ml-auto text-zinc-300 tabular-nums">{temperature.toFixed(1)}</span>
+                  </div>
+                  <input
+                    type="range"
+                    min={0}
+                    max={2}
+                    step={0.1}
+                    value={temperature}
+                    onChange={(e) => updateGeneration({ temperature: parseFloat(e.target.value) })}
+                    className="w-full accent-[var(--senko-accent)]"
+                  />
+                </div>
+                <div className="flex items-center gap-2 text-xs text-zinc-400">
+                  <Hash className="h-3 w-3" />
+                  <span>Max tokens</span>
+                  <input
+                    type="number"
+                    min={1}
+                    step={256}
+                    value={generation.maxTokens ?? ""}
+                    placeholder={String(generationDefaults.maxTokens)}
+                    onChange={(e) => {
+                      const n = parseInt(e.target.value);
+                      updateGeneration({ maxTokens: n > 0 ? n : undefined });
+                    }}
+                    className="ml-auto h-7 w-20 rounded-lg border border-white/[0.08] bg-black/40 px-2 text-right text-[12px] text-zinc-300 outline-none focus:border-[var(--senko-accent)]/40"
+                  />
+                </div>
+                <p className="text-[11px] text-zinc-600">Applies to this conversation only.</p>
+              </div>
+            </section>
+
+            <Separator className="bg-white/[0.06]" />
+          </>
+        )}
+
         {/* Device Info */}
         <section>
           <h3 className="mb-2.5 flex items-center gap-2 text-[11px] font-bold uppercase tracking-[0.12em] text-zinc-500">
@@ -286,6 +389,68 @@ export function SettingsPanel({
 
         <Separator className="bg-white/[0.06]" />
 
+        {/* Action Permissions */}
+        <section>
+          <h3 className="mb-2.5 flex items-center gap-2 text-[11px] font-bold uppercase tracking-[0.12em] text-zinc-500">
+            <ShieldCheck className="h-4 w-4" />
+            Senko Actions
+          </h3>
+          <div className="glass-panel rounded-xl p-4 space-y-3.5">
+            {GUARDED_ACTIONS.map(({ action, label }) => {
+              const current = settings.actionPolicy[action] ?? DEFAULT_ACTION_POLICY[action];
+              return (
+                <div key={action} className="space-y-1.5">
+                  <span className="text-xs text-zinc-400">{label}</span>
+                  <div className="flex gap-1">
+                    {(["allow", "ask", "never"] as const).map((choice) => (
+                      <Button
+                        key={choice}
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => updateSetting("actionPolicy", { ...settings.actionPolicy, [action]: choice })}
+                        className={`h-7 flex-1 rounded-lg text-[11px] capitalize font-medium transition-all ${
+                          current === choice
+                            ? "bg-[var(--senko-accent)]/15 text-[var(--senko-accent)]"
+                            : "text-zinc-500 hover:bg-white/5 hover:text-zinc-400"
+                        }`}
+                      >
+                        {choice}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+            {Object.keys(settings.actionGrants).length > 0 && (
+              <div className="space-y-1.5">
+                <span className="text-xs text-zinc-400">Remembered</span>
+                {Object.entries(settings.actionGrants).map(([key, grant]) => {
+                  const i = key.indexOf(":");
+                  const action = key.slice(0, i);
+                  const scope = key.slice(i + 1);
+                  return (
+                    <div key={key} className="flex items-center gap-2 text-xs">
+                      <span className={grant === "allow" ? "text-emerald-400" : "text-red-400"}>{grant}</span>
+                      <span className="min-w-0 flex-1 truncate text-zinc-300" title={`${action} ${scope}`}>{scope}</span>
+                      <span className="text-[10px] text-zinc-600">{action}</span>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => onSettingsChange(forgetDecision(settings, key))}
+                        className="h-5 w-5 rounded p-0 text-zinc-600 hover:bg-white/5 hover:text-zinc-400"
+                      >
+                        <X className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </section>
+
+        <Separator className="bg-white/[0.06]" />
+
         {/* App Settings */}
         <section>
           <h3 className="mb-2.5 flex items-center gap-2 text-[11px] font-bold uppercase tracking-[0.12em] text-zinc-500">
@@ -1,14 +1,16 @@
 "use client";
 
 import { useState } from "react";
-import { History, Settings, PanelLeftClose, PanelLeft, Bot, X } from "lucide-react";
+import { History, Settings, Activity, PanelLeftClose, PanelLeft, Bot, X } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { HistoryPanel } from "./history-panel";
 import { SettingsPanel } from "./settings-panel";
-import type { Conversation, AppSettings } from "@/types/chat";
+import { TracePanel } from "./trace-panel";
+import type { GenerationDefaults } from "@/hooks/use-models";
+import type { Conversation, AppSettings, Message, GenerationSettings, ModelProviderInfo } from "@/types/chat";
 
-type SidebarTab = "history" | "settings";
+type SidebarTab = "history" | "settings" | "trace";
 
 interface SidebarProps {
   conversations: Conversation[];
@@ -18,6 +20,17 @@ interface SidebarProps {
   onNewConversation: () => void;
   onDeleteConversation: (id: string) => void;
   onSettingsChange: (settings: AppSettings) => void;
+  // Model and sampling settings of the active conversation
+  generation?: GenerationSettings;
+  generationDefaults?: GenerationDefaults;
+  modelProviders?: ModelProviderInfo[];
+  onGenerationChange?: (generation: GenerationSettings) => void;
+  onRefreshModels?: () => void;
+  // Messages of the active conversation, for the trace inspector
+  messages?: Message[];
+  // Set (to a new object) to open the trace tab on a reply
+  inspecting?: { messageId: string } | null;
+  onInspectMessage?: (id: string) => void;
   isMobile?: boolean;
   isOpen?: boolean;
   onClose?: () => void;
@@ -31,12 +44,29 @@ export function Sidebar({
   onNewConversation,
   onDeleteConversation,
   onSettingsChange,
+  generation,
+  generationDefaults,
+  modelProviders,
+  onGenerationChange,
+  onRefreshModels,
+  messages = [],
+  inspecting,
+  onInspectMessage,
   isMobile = false,
   isOpen = true,
   onClose,
 }: SidebarProps) {
   const [activeTab, setActiveTab] = useState<SidebarTab>("history");
   const [collapsed, setCollapsed] = useState(false);
+  const [seenInspect, setSeenInspect] = useState(inspecting);
+
+  if (inspecting !== seenInspect) {
+    setSeenInspect(inspecting);
+    if (inspecting) {
+      setActiveTab("trace");
+      setCollapsed(false);
+    }
+  }
 
   const handleSelectConversation = (id: string) => {
     onSelectConversation(id);
@@ -114,6 +144,20 @@ export function Sidebar({
               <Settings className="h-4 w-4" />
               Settings
             </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => setActiveTab("trace")}
+              className={cn(
+                "h-9 flex-1 gap-2 rounded-xl text-[13px] font-medium",
+                activeTab === "trace"
+                  ? "bg-[var(--senko-accent)]/10 text-[var(--senko-accent)]"
+                  : "text-zinc-500 hover:bg-white/5 hover:text-zinc-400"
+              )}
+            >
+              <Activity className="h-4 w-4" />
+              Trace
+            </Button>
           </div>
 
           {/* Panel Content */}
@@ -126,10 +170,21 @@ export function Sidebar({
                 onNewConversation={handleNewConversation}
                 onDeleteConversation={onDeleteConversation}
               />
+            ) : activeTab === "trace" ? (
+              <TracePanel
+                messages={messages}
+                selectedMessageId={inspecting?.messageId}
+                onSelectMessage={(id) => onInspectMessage?.(id)}
+              />
             ) : (
               <SettingsPanel
                 settings={settings}
                 onSettingsChange={onSettingsChange}
+                generation={generation}
+                generationDefaults={generationDefaults}
+                modelProviders={modelProviders}
+                onGenerationChange={onGenerationChange}
+                onRefreshModels={onRefreshModels}
               />
             )}
           </div>
@@ -203,6 +258,20 @@ export function Sidebar({
             <Settings className="h-4 w-4" />
             Settings
           </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => setActiveTab("trace")}
+            className={cn(
+              "h-8 flex-1 gap-2 rounded-xl text-[13px] font-medium",
+              activeTab === "trace"
+                ? "bg-[var(--senko-accent)]/10 text-[var(--senko-accent)]"
+                : "text-zinc-500 hover:bg-white/5 hover:text-zinc-400"
+            )}
+          >
+            <Activity className="h-4 w-4" />
+            Trace
+          </Button>
         </div>
       )}
 
@@ -241,6 +310,22 @@ export function Sidebar({
           >
             <Settings className="h-4 w-4" />
           </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => {
+              setCollapsed(false);
+              setActiveTab("trace");
+            }}
+            className={cn(
+              "h-8 w-8 rounded-lg p-0",
+              activeTab === "trace"
+                ? "bg-[var(--senko-accent)]/10 text-[var(--senko-accent)]"
+                : "text-zinc-500 hover:bg-white/5 hover:text-zinc-400"
+            )}
+          >
+            <Activity className="h-4 w-4" />
+          </Button>
         </div>
       )}
 
@@ -255,10 +340,21 @@ export function Sidebar({
               onNewConversation={onNewConversation}
               onDeleteConversation={onDeleteConversation}
             />
+          ) : activeTab === "trace" ? (
+            <TracePanel
+              messages={messages}
+              selectedMessageId={inspecting?.messageId}
+              onSelectMessage={(id) => onInspectMessage?.(id)}
+            />
           ) : (
             <SettingsPanel
               settings={settings}
               onSettingsChange={onSettingsChange}
+              generation={generation}
+              generationDefaults={generationDefaults}
+              modelProviders={modelProviders}
+              onGenerationChange={onGenerationChange}
+              onRefreshModels={onRefreshModels}
             />
           )}
         </div>
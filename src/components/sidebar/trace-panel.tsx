@@ -0,0 +1,145 @@
+"use client";
+
+import { useState } from "react";
+import { Activity, Bot, Zap, Globe, Server, OctagonX, Ban, ChevronRight } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { AgentStepKind, AgentStopReason, AgentTraceStep, Message } from "@/types/chat";
+
+interface TracePanelProps {
+  // Messages of the active conversation
+  messages: Message[];
+  // Reply to show; defaults to the latest traced one
+  selectedMessageId?: string | null;
+  onSelectMessage: (id: string) => void;
+}
+
+const STEP_ICONS: Record<AgentStepKind, typeof Activity> = {
+  model: Bot,
+  action: Zap,
+  read: Globe,
+  api: Server,
+  limit: OctagonX,
+  cancel: Ban,
+};
+
+const STOP_LABELS: Record<AgentStopReason, string> = {
+  done: "Finished",
+  max_steps: "Step limit reached",
+  time_budget: "Time budget spent",
+  cancelled: "Cancelled",
+};
+
+function formatMs(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function TraceStep({ step }: { step: AgentTraceStep }) {
+  const [open, setOpen] = useState(false);
+  const Icon = STEP_ICONS[step.kind];
+  const expandable = !!(step.request || step.response || step.prompt);
+
+  return (
+    <li className="rounded-xl bg-white/[0.02] border border-white/[0.04]">
+      <button
+        onClick={() => expandable && setOpen(!open)}
+        className={cn(
+          "flex w-full items-start gap-2.5 px-3 py-2 text-left",
+          expandable ? "cursor-pointer hover:bg-white/[0.03]" : "cursor-default"
+        )}
+      >
+        <Icon
+          className={cn(
+            "mt-0.5 h-3.5 w-3.5 shrink-0",
+            step.status === "error" ? "text-red-400" : step.status === "skipped" ? "text-amber-500/70" : "text-zinc-500"
+          )}
+        />
+        <div className="min-w-0 flex-1">
+          <p className="truncate text-[12px] font-medium text-zinc-300">{step.label}</p>
+          {step.detail && <p className="truncate text-[11px] text-zinc-600">{step.detail}</p>}
+        </div>
+        <span className="shrink-0 text-[10px] tabular-nums text-zinc-600">
+          {step.durationMs !== undefined ? formatMs(step.durationMs) : `+${formatMs(step.at)}`}
+        </span>
+        {expandable && (
+          <ChevronRight className={cn("mt-0.5 h-3 w-3 shrink-0 text-zinc-600 transition-transform", open && "rotate-90")} />
+        )}
+      </button>
+      {open && (
+        <div className="space-y-2 border-t border-white/[0.04] px-3 py-2">
+          {step.request && <TraceField label="Request" text={step.request} />}
+          {step.prompt && <TraceField label="Follow-up prompt" text={step.prompt} />}
+          {step.response && <TraceField label="Response" text={step.response} />}
+        </div>
+      )}
+    </li>
+  );
+}
+
+function TraceField({ label, text }: { label: string; text: string }) {
+  return (
+    <div>
+      <p className="mb-1 text-[10px] font-bold uppercase tracking-[0.12em] text-zinc-600">{label}</p>
+      <pre className="scrollbar-thin max-h-48 overflow-auto whitespace-pre-wrap break-words rounded-lg bg-black/30 p-2 text-[11px] leading-relaxed text-zinc-400">
+        {text}
+      </pre>
+    </div>
+  );
+}
+
+export function TracePanel({ messages, selectedMessageId, onSelectMessage }: TracePanelProps) {
+  const traced = messages.filter((m) => m.role === "assistant" && m.trace);
+  const selected = traced.find((m) => m.id === selectedMessageId) ?? traced[traced.length - 1];
+  const trace = selected?.trace;
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center justify-between px-4 py-3.5">
+        <h2 className="text-[11px] font-bold uppercase tracking-[0.12em] text-zinc-500">
+          Trace
+        </h2>
+        {trace && (
+          <span className="text-[11px] text-zinc-600">
+            {trace.stepsUsed}/{trace.maxSteps} steps
+            {trace.endedAt ? ` · ${formatMs(trace.endedAt - trace.startedAt)}` : ""}
+          </span>
+        )}
+      </div>
+
+      {traced.length > 1 && (
+        <div className="px-4 pb-2.5">
+          <select
+            value={selected?.id}
+            onChange={(e) => onSelectMessage(e.target.value)}
+            className="glass-input h-9 w-full rounded-xl px-3 text-[13px] text-zinc-300"
+          >
+            {traced.map((m, i) => (
+              <option key={m.id} value={m.id}>
+                Reply {i + 1} — {new Date(m.trace!.startedAt).toLocaleTimeString()}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div className="scrollbar-thin flex-1 overflow-y-auto px-3 pb-3">
+        {!trace ? (
+          <div className="px-3 py-10 text-center">
+            <Activity className="mx-auto mb-3 h-6 w-6 text-zinc-700" />
+            <p className="text-[13px] text-zinc-600">No traced replies in this conversation</p>
+          </div>
+        ) : (
+          <>
+            <p className="px-1 pb-2 text-[11px] text-zinc-500">
+              {trace.stopReason ? STOP_LABELS[trace.stopReason] : "Running…"}
+            </p>
+            <ol className="space-y-1.5">
+              {trace.steps.map((step, i) => (
+                <TraceStep key={`${selected.id}-${i}`} step={step} />
+              ))}
+            </ol>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
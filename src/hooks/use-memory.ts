@@ -60,22 +60,11 @@ export function useMemory() {
     saveMemories([]);
   }, []);
 
-  const getMemoryContext = useCallback((): string => {
-    if (memories.length === 0) return "";
-    const lines = memories.map((m) => `- ${m.key}: ${m.value}`).join("\n");
-    return `\nTHINGS I REMEMBER ABOUT THE USER (from previous conversations):\n${lines}\n\nUse this info naturally -- reference their name, interests, preferences when relevant. Don't list these facts back to them unless asked. Just KNOW them like a real friend would.`;
-  }, [memories]);
+  // What the system prompt template gets; the server words it
+  const getMemoryContext = useCallback(
+    (): { key: string; value: string }[] => memories.map(({ key, value }) => ({ key, value })),
+    [memories]
+  );
 
   return { memories, addMemory, removeMemory, clearMemories, getMemoryContext };
 }
-
-// Parse [MEMORY:key:value] tags from AI output
-export function parseMemoryTags(text: string): { key: string; value: string }[] {
-  const results: { key: string; value: string }[] = [];
-  const regex = /\[MEMORY:([^:]+):([^\]]+)\]/gi;
-  let match;
-  while ((match = regex.exec(text)) !== null) {
-    results.push({ key: match[1].trim(), value: match[2].trim() });
-  }
-  return results;
-}
@@ -0,0 +1,39 @@
+"use client";
+
+import { useState, useCallback, useEffect } from "react";
+import type { ModelProviderInfo } from "@/types/chat";
+
+export interface GenerationDefaults {
+  temperature: number;
+  maxTokens: number;
+}
+
+const fallbackDefaults: GenerationDefaults = { temperature: 0.7, maxTokens: 8192 };
+
+// Models from every enabled provider, via /api/models
+export function useModels() {
+  const [providers, setProviders] = useState<ModelProviderInfo[]>([]);
+  const [defaults, setDefaults] = useState<GenerationDefaults>(fallbackDefaults);
+  const [loading, setLoading] = useState(false);
+
+  const refreshModels = useCallback(async () => {
+    setLoading(true);
+    try {
+      const res = await fetch("/api/models");
+      if (!res.ok) return;
+      const data = await res.json();
+      setProviders(data.providers ?? []);
+      if (data.defaults) setDefaults(data.defaults);
+    } catch {
+      /* keep the last list */
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refreshModels();
+  }, [refreshModels]);
+
+  return { providers, defaults, loading, refreshModels };
+}
@@ -0,0 +1,163 @@
+"use client";
+
+import { useCallback, useEffect, useRef } from "react";
+import {
+  diffOutcomes,
+  startRecording,
+  startReplay,
+  type SessionRecorder,
+  type SessionRecording,
+} from "@/lib/session-harness";
+import type { Conversation } from "@/types/chat";
+
+// Drives @/lib/session-harness from the URL (development only):
+//   /?record=<name>  records until `senkoSession.stop()` is run in the console,
+//                    then saves fixtures/sessions/<name>.json
+//   /?replay=<name>  replays that recording in a new conversation and publishes
+//                    the result on `window.senkoReplay` (status, diffs,
+//                    unmatched requests) for a headless browser to read
+
+interface MemoryLike {
+  key: string;
+  value: string;
+}
+
+interface HarnessOptions {
+  hydrated: boolean;
+  isStreaming: boolean;
+  conversation: Conversation | undefined;
+  memories: MemoryLike[];
+  send: (content: string) => void;
+  newConversation: () => void;
+  replaceMemories: (memories: MemoryLike[]) => void;
+}
+
+export interface ReplayResult {
+  status: "running" | "passed" | "failed";
+  name: string;
+  diffs: string[];
+  unmatched: string[];
+  error?: string;
+}
+
+declare global {
+  interface Window {
+    senkoSession?: { stop: () => Promise<SessionRecording | null> };
+    senkoReplay?: ReplayResult;
+  }
+}
+
+// Quiet period that counts as "the pipeline is done" — follow-up chains
+// (READ_URL, research synthesis) start on timers after the stream ends
+const IDLE_MS = 2000;
+const INPUT_TIMEOUT_MS = 90_000;
+
+export function useSessionHarness(opts: HarnessOptions) {
+  const latest = useRef(opts);
+  const recorder = useRef<SessionRecorder | null>(null);
+  const started = useRef(false);
+
+  useEffect(() => {
+    latest.current = opts;
+  });
+
+  useEffect(() => {
+    if (!opts.hydrated || started.current || process.env.NODE_ENV !== "development") return;
+    const params = new URLSearchParams(window.location.search);
+    const recordName = params.get("record");
+    const replayName = params.get("replay");
+    if (!recordName && !replayName) return;
+    started.current = true;
+
+    if (recordName) {
+      recorder.current = startRecording(recordName, latest.current.memories.map(({ key, value }) => ({ key, value })));
+      window.senkoSession = {
+        stop: async () => {
+          const rec = recorder.current;
+          if (!rec) return null;
+          recorder.current = null;
+          const { conversation, memories } = latest.current;
+          const recording = rec.stop({
+            messages: conversation?.messages ?? [],
+            tabs: conversation?.tabs ?? [],
+            memories: memories.map(({ key, value }) => ({ key, value })),
+          });
+          const res = await fetch("/api/sessions", {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(recording),
+          });
+          console.log(`[session] Recording "${recordName}":`, res.ok ? (await res.json()).saved : `save failed (${res.status})`);
+          return recording;
+        },
+      };
+      console.log(`[session] Recording "${recordName}" — run senkoSession.stop() to save it`);
+      return;
+    }
+
+    replaySession(replayName!, latest).catch((err) => {
+      window.senkoReplay = { status: "failed", name: replayName!, diffs: [], unmatched: [], error: String(err) };
+      console.error("[session] Replay failed:", err);
+    });
+  }, [opts.hydrated]);
+
+  // Call with every message the user sends so it lands in the recording
+  const recordInput = useCallback((content: string) => {
+    recorder.current?.recordInput(content);
+  }, []);
+
+  return { recordInput };
+}
+
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+async function waitForIdle(latest: { current: HarnessOptions }, inFlight: () => number) {
+  const deadline = Date.now() + INPUT_TIMEOUT_MS;
+  let quietSince = Date.now();
+  while (Date.now() < deadline) {
+    await sleep(100);
+    if (latest.current.isStreaming || inFlight() > 0) quietSince = Date.now();
+    else if (Date.now() - quietSince >= IDLE_MS) return;
+  }
+  throw new Error(`Pipeline still busy after ${INPUT_TIMEOUT_MS / 1000}s`);
+}
+
+async function replaySession(name: string, latest: { current: HarnessOptions }) {
+  window.senkoReplay = { status: "running", name, diffs: [], unmatched: [] };
+  const res = await fetch(`/api/sessions?name=${encodeURIComponent(name)}`);
+  if (!res.ok) throw new Error(`Could not load session ${name} (${res.status})`);
+  const recording = (await res.json()) as SessionRecording;
+
+  const previousMemories = latest.current.memories.map(({ key, value }) => ({ key, value }));
+  latest.current.replaceMemories(recording.initialMemories);
+  const replayer = startReplay(recording);
+  let diffs: string[];
+  try {
+    const before = latest.current.conversation?.id;
+    latest.current.newConversation();
+    while (latest.current.conversation?.id === before) await sleep(50);
+
+    for (const input of recording.inputs) {
+      console.log(`[session] Replaying input: ${input.slice(0, 80)}`);
+      latest.current.send(input);
+      await waitForIdle(latest, replayer.inFlight);
+    }
+
+    const { conversation, memories } = latest.current;
+    diffs = diffOutcomes(recording.outcome, {
+      messages: conversation?.messages ?? [],
+      tabs: conversation?.tabs ?? [],
+      memories: memories.map(({ key, value }) => ({ key, value })),
+      opened: replayer.opened,
+    });
+  } finally {
+    // Put the user's own memories back even when the replay throws
+    replayer.stop();
+    latest.current.replaceMemories(previousMemories);
+  }
+
+  const passed = diffs.length === 0 && replayer.unmatched.length === 0;
+  window.senkoReplay = { status: passed ? "passed" : "failed", name, diffs, unmatched: replayer.unmatched };
+  if (passed) console.log(`[session] Replay "${name}" passed`);
+  else console.warn(`[session] Replay "${name}" failed`, { diffs, unmatched: replayer.unmatched });
+}
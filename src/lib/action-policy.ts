@@ -0,0 +1,79 @@
+// Permission policy for actions that reach outside the chat (OPEN_APP runs a
+// command on the host, OPEN_URL / OPEN_TAB open windows, MCP / MCP_READ reach
+// local tool servers). Each type is set to allow, ask or never in AppSettings;
+// answers to "ask" cards can be remembered per domain (URLs), per app, per MCP
+// tool (server/tool) or per MCP server (reads).
+
+import { parseMcpCall, parseMcpRead } from "@/lib/mcp/shared";
+import type { ActionPermission, AppSettings, GuardedAction } from "@/types/chat";
+
+export const GUARDED_ACTIONS: { action: GuardedAction; label: string }[] = [
+  { action: "OPEN_URL", label: "Open links" },
+  { action: "OPEN_TAB", label: "Open new tabs" },
+  { action: "OPEN_APP", label: "Launch apps" },
+  { action: "MCP", label: "Call MCP tools" },
+  { action: "MCP_READ", label: "Read MCP resources" },
+];
+
+export const DEFAULT_ACTION_POLICY: Record<GuardedAction, ActionPermission> = {
+  OPEN_URL: "allow",
+  OPEN_TAB: "ask",
+  OPEN_APP: "ask",
+  MCP: "ask",
+  MCP_READ: "ask",
+};
+
+export function isGuardedAction(type: string): type is GuardedAction {
+  return GUARDED_ACTIONS.some((g) => g.action === type);
+}
+
+// What a remembered decision covers: the app, the MCP tool or server, or the
+// site without "www."
+export function permissionScope(action: GuardedAction, target: string): string {
+  if (action === "OPEN_APP") return target.trim().toLowerCase();
+  if (action === "MCP") {
+    const call = parseMcpCall(target);
+    return "error" in call ? target.trim() : `${call.server}/${call.tool}`;
+  }
+  if (action === "MCP_READ") {
+    const read = parseMcpRead(target);
+    return "error" in read ? target.trim() : read.server;
+  }
+  try {
+    return new URL(target).hostname.replace(/^www\./, "");
+  } catch {
+    return target.trim().toLowerCase();
+  }
+}
+
+export function actionGrantKey(action: GuardedAction, scope: string): string {
+  return `${action}:${scope}`;
+}
+
+// "never" anywhere wins, then "allow" anywhere; otherwise the user is asked
+export function actionVerdict(settings: AppSettings, action: GuardedAction, target: string): ActionPermission {
+  const policy = settings.actionPolicy?.[action] ?? DEFAULT_ACTION_POLICY[action];
+  const grant = settings.actionGrants?.[actionGrantKey(action, permissionScope(action, target))];
+  if (policy === "never" || grant === "never") return "never";
+  if (policy === "allow" || grant === "allow") return "allow";
+  return "ask";
+}
+
+export function rememberDecision(
+  settings: AppSettings,
+  action: GuardedAction,
+  scope: string,
+  approved: boolean
+): AppSettings {
+  return {
+    ...settings,
+    actionGrants: { ...settings.actionGrants, [actionGrantKey(action, scope)]: approved ? "allow" : "never" },
+  };
+}
+
+export function forgetDecision(settings: AppSettings, key: string): AppSettings {
+  return {
+    ...settings,
+    actionGrants: Object.fromEntries(Object.entries(settings.actionGrants).filter(([k]) => k !== key)),
+  };
+}
@@ -0,0 +1,287 @@
+// Senko's built-in actions, declared through the same contract as plugins.
+// The self-contained ones (OPEN_APP, SCRAPE_IMAGES, SCREENSHOT, LIST_TABS)
+// bring their handler as `run`; the rest drive state that only
+// processActions (page.tsx) holds, so their handlers are its branches.
+
+import type { ActionArg, ActionContext, ActionPlugin } from "./types";
+import { apiSearchClient } from "@/lib/search/client";
+import {
+  filtersFromToolArgs,
+  formatSearchValue,
+  searchResultTypes,
+  searchSafeLevels,
+  searchTimeRanges,
+} from "@/lib/search/filters";
+
+const str = (v: unknown) => (v === undefined || v === null ? "" : String(v).trim());
+
+const urlArg: Record<string, ActionArg> = { url: { type: "string", description: "Full URL including https://" } };
+
+const faviconOf = (url: URL) => `https://www.google.com/s2/favicons?domain=${url.hostname}&sz=16`;
+
+async function openApp(value: string, ctx: ActionContext) {
+  const app = value.replace(/:$/, "").trim();
+  console.log(`%c[APP] 💻 Requesting to open app`, "color: #cc66ff; font-weight: bold; font-size: 12px", { app });
+  if (!(await ctx.permit("OPEN_APP", app))) return;
+  console.log(`%c[APP] ✅ Launching`, "color: #00ff88", app);
+  const done = ctx.think(`opening ${app}...`);
+  let res: Response;
+  let data: { error?: string };
+  try {
+    res = await ctx.fetch("/api/open-app", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ app }),
+    });
+    data = await res.json().catch(() => ({}));
+  } finally {
+    done();
+  }
+  await ctx.followUp("Open app", res.ok
+    ? `I opened "${app}" on the user's computer. Confirm it's open in 1-2 sentences with a quick useful tip. Don't say "welcome". Use a kaomoji. Be brief and varied.`
+    : `I tried to open "${app}" but it failed: ${data.error}. Let the user know briefly and suggest what they could try instead. Use a kaomoji.`);
+}
+
+// Scraped images go into the reply's carousel
+async function scrapeImages(url: string, ctx: ActionContext) {
+  console.log(`%c[IMAGES] 🖼️ Scraping images from URL`, "color: #ff66cc; font-weight: bold; font-size: 12px", url);
+  const done = ctx.think(`scraping images from ${url}...`);
+  const data = await apiSearchClient(ctx.fetch).images({ url }).finally(done);
+  console.log(`%c[IMAGES] 📊 Scrape result`, "color: #ff66cc", { url, found: data.images?.length || 0 });
+  if (!data.images?.length) {
+    console.warn(`%c[IMAGES] ⚠️ No images found on page`, "color: #ffaa00", url);
+    return;
+  }
+  const images = data.images.map((img) => ({ url: img.url, alt: img.alt || url }));
+  console.log(`%c[IMAGES] ✅ Adding ${images.length} images to carousel`, "color: #00ff88", images.map((i) => i.url.slice(0, 60)));
+  ctx.update((m) => ({ ...m, images: [...(m.images || []), ...images] }));
+}
+
+// The screenshot arrives as a message of its own, with the page as its source
+async function screenshot(value: string, ctx: ActionContext) {
+  console.log(`%c[SCREENSHOT] 📸 Taking screenshot`, "color: #ffcc00; font-weight: bold; font-size: 12px", value);
+  const url = new URL(value);
+  const done = ctx.think(`taking screenshot of ${url.hostname}...`);
+  const data = await apiSearchClient(ctx.fetch).screenshot(value).finally(done);
+  if (!data.screenshot) return;
+  ctx.addMessage({
+    content: data.title ? `here's what **${data.title}** looks like :3` : `got the screenshot~`,
+    images: [{ url: data.screenshot, alt: data.title || value }],
+    sources: [{ url: value, title: data.title || url.hostname, favicon: faviconOf(url) }],
+  });
+}
+
+function listTabs(_value: string, ctx: ActionContext) {
+  const tabs = ctx.tabs();
+  const list = tabs.length === 0
+    ? "No tabs open."
+    : tabs.map((t, i) => `${i + 1}. ${t.active ? "[ACTIVE] " : ""}${t.title} - ${t.url}`).join("\n");
+  console.log(`%c[TAB] 📋 Listing tabs`, "color: #88ccff", list);
+  ctx.update((m) => ({ ...m, content: (m.content ? m.content + "\n\n" : "") + "**Open Tabs:**\n" + list }));
+}
+
+export const BUILTIN_ACTIONS: ActionPlugin[] = [
+  {
+    type: "SEARCH",
+    value: "text",
+    usage: "query",
+    prompt: "Search the web. This AUTOMATICALLY finds images, scrapes sources, and shows them in the UI. Use this for ANY request involving research, information, how-to, or looking things up. Optional filters go after a \"|\": time:day|week|month|year, site:domain, -site:domain, region:us, lang:en, safe:off|moderate|strict, type:news|images|videos — e.g. [ACTION:SEARCH:ps5 restock | time:week site:reddit.com]. Only add filters the user asked for or the question clearly needs (recent news, one site).",
+    tool: {
+      name: "search",
+      description: "Search the web. Automatically finds images, scrapes sources and shows them in the UI. Use for any research, facts, how-to or look-up request. Only set filters the user asked for or the question clearly needs.",
+      args: {
+        query: { type: "string", description: "Specific, pronoun-resolved search query" },
+        time: { type: "string", enum: searchTimeRanges, description: "Only results from the past day, week, month or year" },
+        site: { type: "string", description: "Only results from these domains, comma-separated (reddit.com)" },
+        exclude_site: { type: "string", description: "No results from these domains, comma-separated" },
+        region: { type: "string", description: "2-letter country code to localize results (us, gb, jp)" },
+        language: { type: "string", description: "2-letter language code of the results (en, ja)" },
+        safe_search: { type: "string", enum: searchSafeLevels, description: "Safe-search level" },
+        type: { type: "string", enum: searchResultTypes, description: "Kind of results; web by default" },
+      },
+      required: ["query"],
+      toValue: (a) => formatSearchValue(str(a.query), filtersFromToolArgs(a)),
+    },
+  },
+  {
+    type: "OPEN_URL",
+    value: "url",
+    usage: "url",
+    prompt: "Open a URL in the user's browser. Use when user says \"open\", \"go to\", \"visit\", or when they clearly want to navigate somewhere. You MUST construct the FULL correct URL including search paths when the user wants to search ON a specific site.",
+    tool: {
+      name: "open_url",
+      description: "Open a URL in the user's browser. Only use URLs you are certain are real (homepages, site search URLs, links read from a page).",
+      args: urlArg,
+      required: ["url"],
+      toValue: (a) => str(a.url),
+    },
+  },
+  {
+    type: "OPEN_APP",
+    value: "text",
+    usage: "appname",
+    prompt: "Open a desktop app (calculator, notepad, chrome, spotify, discord, vscode, etc).",
+    tool: {
+      name: "open_app",
+      description: "Open a desktop app (calculator, notepad, chrome, spotify, discord, vscode, ...).",
+      args: { app: { type: "string", description: "App name" } },
+      required: ["app"],
+      toValue: (a) => str(a.app),
+    },
+    run: openApp,
+  },
+  {
+    type: "OPEN_RESULT",
+    value: "number",
+    usage: "N",
+    prompt: "Open the Nth search result from a previous search in the user's browser.",
+    tool: {
+      name: "open_result",
+      description: "Open the Nth result from the previous search in the user's browser.",
+      args: { index: { type: "integer", description: "1-based result number" } },
+      required: ["index"],
+      toValue: (a) => str(a.index),
+    },
+  },
+  {
+    type: "MORE_RESULTS",
+    value: "none",
+    usage: "any",
+    prompt: "Load the next page of results for the previous search. Use when the user asks for more results (\"show me more\", \"any others?\"). OPEN_RESULT past the listed results loads the pages it needs by itself.",
+    tool: {
+      name: "more_results",
+      description: "Load the next page of results for the previous search.",
+      args: {},
+      required: [],
+      toValue: () => "any",
+    },
+  },
+  {
+    type: "SCRAPE_IMAGES",
+    value: "url",
+    usage: "url",
+    prompt: "Go to a specific URL and scrape all images from that page. Shows them in a carousel. Use when user wants images FROM a specific website.",
+    tool: {
+      name: "scrape_images",
+      description: "Scrape all images from a specific page and show them in a carousel.",
+      args: urlArg,
+      required: ["url"],
+      toValue: (a) => str(a.url),
+    },
+    run: scrapeImages,
+  },
+  {
+    type: "READ_URL",
+    value: "url",
+    usage: "url",
+    prompt: "Fetch and read a webpage's content, links, images, and metadata. Use this to deeply read a source page, navigate into links, or scan a site for information. Returns structured data you can use to answer questions.",
+    tool: {
+      name: "read_url",
+      description: "Fetch and read a page's content, links, videos and metadata. The page is fed back to you so you can navigate deeper.",
+      args: urlArg,
+      required: ["url"],
+      toValue: (a) => str(a.url),
+    },
+  },
+  {
+    type: "SCREENSHOT",
+    value: "url",
+    usage: "url",
+    prompt: "Screenshot a website and show it in chat.",
+    tool: {
+      name: "screenshot",
+      description: "Screenshot a website and show it in chat.",
+      args: urlArg,
+      required: ["url"],
+      toValue: (a) => str(a.url),
+    },
+    run: screenshot,
+  },
+  {
+    type: "EMBED",
+    value: "url-label",
+    usage: "url|title",
+    prompt: "Embed a live website in chat as an interactive iframe. Great for showing sites inline without leaving the chat.",
+    tool: {
+      name: "embed",
+      description: "Embed a live website in chat as an interactive iframe.",
+      args: {
+        ...urlArg,
+        title: { type: "string", description: "Short label for the embed" },
+      },
+      required: ["url"],
+      toValue: (a) => (str(a.title) ? `${str(a.url)}|${str(a.title)}` : str(a.url)),
+    },
+  },
+  {
+    type: "CLOSE_TAB",
+    value: "text",
+    usage: "N or name",
+    prompt: "Close an open tab by number (1-indexed) or by name/URL substring. The UI shows a tab bar of all pages you've opened.",
+    tool: {
+      name: "close_tab",
+      description: "Close an open tab by 1-based number or by name/URL substring.",
+      args: { tab: { type: "string", description: "Tab number or name/URL substring" } },
+      required: ["tab"],
+      toValue: (a) => str(a.tab),
+    },
+  },
+  {
+    type: "SWITCH_TAB",
+    value: "text",
+    usage: "N or name",
+    prompt: "Switch the active tab to a different one by number or name/URL substring.",
+    tool: {
+      name: "switch_tab",
+      description: "Switch the active tab by 1-based number or by name/URL substring.",
+      args: { tab: { type: "string", description: "Tab number or name/URL substring" } },
+      required: ["tab"],
+      toValue: (a) => str(a.tab),
+    },
+  },
+  {
+    type: "LIST_TABS",
+    value: "none",
+    usage: "any",
+    prompt: "List all currently open tabs. Use when user asks \"what tabs are open\" or similar.",
+    tool: {
+      name: "list_tabs",
+      description: "List all currently open tabs.",
+      args: {},
+      required: [],
+      toValue: () => "any",
+    },
+    run: listTabs,
+  },
+  {
+    type: "CLICK_IN_TAB",
+    value: "text",
+    usage: "link text",
+    prompt: "Find and click a link on the currently active tab's page. Searches the page for a link matching the text and opens it.",
+    tool: {
+      name: "click_in_tab",
+      description: "Find and click a link on the active tab's page by its text.",
+      args: { link_text: { type: "string", description: "Visible text of the link" } },
+      required: ["link_text"],
+      toValue: (a) => str(a.link_text),
+    },
+  },
+  {
+    type: "OPEN_TAB",
+    value: "text",
+    usage: "topic",
+    prompt: "Open a new tab by searching for a topic and opening the top result. Use when the user wants you to open tabs for specific topics, people, characters, etc. You can use MULTIPLE OPEN_TAB actions in one message to open several tabs at once. Example: \"open tabs for the main characters\" -> use [ACTION:OPEN_TAB:Anya Forger] [ACTION:OPEN_TAB:Loid Forger] [ACTION:OPEN_TAB:Yor Briar]",
+    tool: {
+      name: "open_tab",
+      description: "Search for a topic and open the top result as a new tab. Call once per tab.",
+      args: { topic: { type: "string", description: "Topic, person or thing to open" } },
+      required: ["topic"],
+      toValue: (a) => str(a.topic),
+    },
+  },
+  {
+    // Written bare as [IMAGE:url|alt]; never advertised — the UI finds images itself
+    type: "IMAGE",
+    value: "url-label",
+  },
+];
@@ -0,0 +1,2 @@
+export * from "./types";
+export { registerAction, getAction, listActions, isActionType, actionPromptDocs, runAction } from "./registry";
@@ -0,0 +1,13 @@
+// Server halves of custom actions declared with `server: true`, by action
+// type. Only /api/actions imports this file, so handlers may use Node APIs.
+//
+//   import { fetchWeather } from "./weather.server";
+//   export const SERVER_ACTIONS: Record<string, ServerActionHandler> = { WEATHER: fetchWeather };
+
+import { runMcpCall, runMcpRead } from "@/lib/mcp/manager";
+import type { ServerActionHandler } from "./types";
+
+export const SERVER_ACTIONS: Record<string, ServerActionHandler> = {
+  MCP: runMcpCall,
+  MCP_READ: runMcpRead,
+};
@@ -0,0 +1,10 @@
+// Custom actions. Ship each as its own module exporting an ActionPlugin and
+// list it here; it is registered after the built-ins and can't replace one.
+//
+//   import { weatherAction } from "./weather";
+//   export const CUSTOM_ACTIONS: ActionPlugin[] = [weatherAction];
+
+import { mcpActions } from "@/lib/mcp/actions";
+import type { ActionPlugin } from "./types";
+
+export const CUSTOM_ACTIONS: ActionPlugin[] = [...mcpActions];
@@ -0,0 +1,65 @@
+import { isGuardedAction } from "@/lib/action-policy";
+import { BUILTIN_ACTIONS } from "./builtin";
+import { CUSTOM_ACTIONS } from "./plugins";
+import type { ActionContext, ActionPlugin } from "./types";
+
+const actions = new Map<string, ActionPlugin>();
+
+export function registerAction(action: ActionPlugin) {
+  const type = action.type.toUpperCase();
+  if (!/^[A-Z][A-Z0-9_]*$/.test(type)) {
+    throw new Error(`Action type must be UPPER_SNAKE_CASE, got "${action.type}"`);
+  }
+  if (actions.has(type) && BUILTIN_ACTIONS.some((a) => a.type === type)) {
+    console.warn(`[actions] ${type} is built in; ignoring the plugin that redeclares it`);
+    return;
+  }
+  actions.set(type, { ...action, type });
+}
+
+for (const action of [...BUILTIN_ACTIONS, ...CUSTOM_ACTIONS]) {
+  registerAction(action);
+}
+
+export function getAction(type: string): ActionPlugin | undefined {
+  return actions.get(type);
+}
+
+export function listActions(): ActionPlugin[] {
+  return [...actions.values()];
+}
+
+export function isActionType(name: string): boolean {
+  return actions.has(name);
+}
+
+// The "Available actions" list of the system prompt
+export function actionPromptDocs(): string {
+  return listActions()
+    .filter((a) => a.prompt)
+    .map((a) => `  [ACTION:${a.type}:${a.usage ?? "value"}] - ${a.prompt}`)
+    .join("\n");
+}
+
+// Runs a plugin action: its own client handler, or its server handler via
+// /api/actions with the result attached to the reply (and handed back to the
+// model when the action asks for a follow-up). Server actions with a policy
+// (MCP, MCP_READ) wait for it first.
+export async function runAction(action: ActionPlugin, value: string, ctx: ActionContext): Promise<void> {
+  if (action.run) {
+    await action.run(value, ctx);
+    return;
+  }
+  if (!action.server) return;
+  if (isGuardedAction(action.type) && !(await ctx.permit(action.type, value))) return;
+  const res = await ctx.fetch("/api/actions", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ type: action.type, value }),
+  });
+  const data = await res.json().catch(() => ({}));
+  if (!res.ok) throw new Error(data.error || `${action.type} failed (${res.status})`);
+  ctx.attach(data.result);
+  const prompt = action.followUpPrompt?.(data.result, value);
+  if (prompt) await ctx.followUp(action.type, prompt);
+}
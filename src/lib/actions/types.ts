@@ -0,0 +1,87 @@
+// Contract for Senko's actions. An action is declared once and picked up by
+// the [ACTION:TYPE:value] tag parser, the JSON-schema tools sent to models,
+// the system prompt's action list and page.tsx's action pipeline. The
+// registry is also loaded by API routes, so it holds no components: what an
+// action attaches is drawn by ACTION_RENDERERS in chat-message.tsx.
+
+import type { GuardedAction, Message, SenkoTab } from "@/types/chat";
+
+// How the tag parser validates (and repairs) the value
+//   text       anything non-empty
+//   url        full http(s) URL; a bare domain gets https://
+//   url-label  URL with an optional "|label" (EMBED:url|title)
+//   number     1-based index
+//   none       may be empty (LIST_TABS)
+export type ActionValueKind = "text" | "url" | "url-label" | "number" | "none";
+
+export interface ActionArg {
+  type: "string" | "integer";
+  description: string;
+  // Allowed values, sent as the JSON-schema enum
+  enum?: readonly string[];
+}
+
+// The action as an OpenAI-style function tool
+export interface ActionToolSpec {
+  name: string;
+  description: string;
+  args: Record<string, ActionArg>;
+  required: string[];
+  // Collapse the tool-call arguments into the tag value
+  toValue: (args: Record<string, unknown>) => string;
+}
+
+// What a client handler can do to the reply that triggered it
+export interface ActionContext {
+  convId: string;
+  messageId: string;
+  // fetch() recorded in the reply's agent trace and cancelled with its chain
+  fetch: (url: string, init?: RequestInit) => Promise<Response>;
+  // Stores JSON data on the reply; shown by the action's renderer
+  attach: (data: unknown) => void;
+  // Edits the reply in place
+  update: (change: (message: Message) => Message) => void;
+  // Adds an assistant message of its own to the conversation
+  addMessage: (message: Omit<Message, "id" | "role" | "timestamp">) => void;
+  // The conversation's open tabs
+  tabs: () => SenkoTab[];
+  // Shows a "thinking" line until the returned function is called
+  think: (text: string) => () => void;
+  // Opens a window and a tab, subject to the user's OPEN_URL policy
+  openUrl: (url: string, title?: string) => void;
+  // Resolves true once the user's policy lets `type` run on `target`, right
+  // away or after they approve the card; false when blocked or denied
+  permit: (type: GuardedAction, target: string) => Promise<boolean>;
+  // Streams a follow-up reply to `prompt` (prefixed with the user's question),
+  // counted against the chain's hop budget
+  followUp: (label: string, prompt: string) => Promise<void>;
+}
+
+export interface ActionAttachmentProps {
+  data: unknown;
+  message: Message;
+}
+
+export interface ActionPlugin {
+  // Tag name: [ACTION:TYPE:value]
+  type: string;
+  value: ActionValueKind;
+  // System prompt entry, rendered as "[ACTION:TYPE:<usage>] - <prompt>".
+  // Actions without one aren't advertised in the prompt.
+  usage?: string;
+  prompt?: string;
+  tool?: ActionToolSpec;
+  // Runs in the browser. Built-ins that steer the page's own pipeline
+  // (search, page reads, URL opening, tab navigation) leave this unset —
+  // their handlers are the branches of processActions in page.tsx.
+  run?: (value: string, ctx: ActionContext) => void | Promise<void>;
+  // Runs on the server instead: POST /api/actions calls the handler
+  // registered for this type in plugins.server.ts and attaches its result
+  server?: boolean;
+  // For server actions: the prompt that hands the result back to the model,
+  // or null to stop there
+  followUpPrompt?: (result: unknown, value: string) => string | null;
+}
+
+// Server half of an action with `server: true`; the result must be JSON
+export type ServerActionHandler = (value: string) => Promise<unknown>;
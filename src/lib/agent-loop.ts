@@ -0,0 +1,190 @@
+// Controller for Senko's multi-step browsing chains. A reply can trigger
+// READ_URL / CLICK_IN_TAB, whose page is fed back to the model, whose reply
+// can navigate again... Each user message gets one loop that bounds that
+// chain (navigation hops and wall-clock time), refuses to revisit a URL,
+// can be cancelled as a whole and records every step in a trace.
+
+import type { AgentStepKind, AgentStopReason, AgentTrace, AgentTraceStep } from "@/types/chat";
+
+export interface AgentLimits {
+  // Page reads / clicks that feed a follow-up reply
+  maxSteps: number;
+  timeBudgetMs: number;
+}
+
+export const DEFAULT_AGENT_LIMITS: AgentLimits = {
+  maxSteps: 6,
+  timeBudgetMs: 120_000,
+};
+
+// Traces are saved with the conversation, so long texts are cut
+const RESPONSE_LIMIT = 600;
+const PROMPT_LIMIT = 2000;
+
+type StepFields = Partial<Pick<AgentTraceStep, "detail" | "status" | "request" | "response" | "prompt">>;
+
+export interface AgentLoop {
+  // Aborted when the loop is cancelled; pass to fetches and follow-up streams
+  readonly signal: AbortSignal;
+  // Set once the loop has ended
+  readonly stopReason: AgentStopReason | undefined;
+  // Claims the next navigation hop. False once the loop is stopped or a
+  // budget is spent (the loop then stops and records why).
+  step: (label: string, detail?: string) => boolean;
+  // Marks a URL as visited; false if this chain already went there
+  visit: (url: string) => boolean;
+  // Records a step that doesn't use budget
+  note: (kind: AgentStepKind, label: string, fields?: StepFields) => void;
+  // Records a step now; call the result when it completes to add its duration and outcome
+  start: (kind: AgentStepKind, label: string, fields?: StepFields) => (fields?: StepFields) => void;
+  // fetch() that records the call, its duration and the start of the response.
+  // Uses the loop's signal unless one is given.
+  fetch: (url: string, init?: RequestInit) => Promise<Response>;
+  // Keeps the loop open while `work` runs; it finishes once nothing is in flight
+  track: <T>(work: Promise<T>) => Promise<T>;
+  cancel: () => void;
+}
+
+// Trailing slashes, fragments and letter case don't make a page new
+function visitKey(url: string): string {
+  try {
+    const u = new URL(url);
+    u.hash = "";
+    return u.toString().replace(/\/+$/, "").toLowerCase();
+  } catch {
+    return url.trim().toLowerCase();
+  }
+}
+
+const cut = (text: string | undefined, limit: number) =>
+  text && text.length > limit ? `${text.slice(0, limit)}…` : text;
+
+function clip(fields: StepFields): StepFields {
+  return { ...fields, response: cut(fields.response, RESPONSE_LIMIT), prompt: cut(fields.prompt, PROMPT_LIMIT) };
+}
+
+export function createAgentLoop(
+  onTrace: (trace: AgentTrace) => void,
+  limits: AgentLimits = DEFAULT_AGENT_LIMITS
+): AgentLoop {
+  const controller = new AbortController();
+  const visited = new Set<string>();
+  const trace: AgentTrace = {
+    startedAt: Date.now(),
+    stepsUsed: 0,
+    maxSteps: limits.maxSteps,
+    timeBudgetMs: limits.timeBudgetMs,
+    steps: [],
+  };
+  let inFlight = 0;
+
+  const publish = () => onTrace({ ...trace, steps: trace.steps.map((s) => ({ ...s })) });
+
+  const push = (kind: AgentStepKind, label: string, fields: StepFields = {}): AgentTraceStep => {
+    const step: AgentTraceStep = { at: Date.now() - trace.startedAt, kind, label, status: "ok", ...clip(fields) };
+    trace.steps.push(step);
+    return step;
+  };
+
+  const stop = (reason: AgentStopReason) => {
+    if (trace.stopReason) return;
+    trace.stopReason = reason;
+    trace.endedAt = Date.now();
+    if (reason === "cancelled") controller.abort();
+    publish();
+  };
+
+  const start: AgentLoop["start"] = (kind, label, fields) => {
+    if (trace.stopReason) return () => {};
+    const step = push(kind, label, fields);
+    const startedAt = Date.now();
+    publish();
+    return (done = {}) => {
+      Object.assign(step, clip(done), { durationMs: Date.now() - startedAt });
+      publish();
+    };
+  };
+
+  const loop: AgentLoop = {
+    signal: controller.signal,
+
+    get stopReason() {
+      return trace.stopReason;
+    },
+
+    step(label, detail) {
+      if (trace.stopReason) return false;
+      if (trace.stepsUsed >= limits.maxSteps) {
+        push("limit", `Stopped after ${limits.maxSteps} steps`, { detail: label, status: "skipped" });
+        stop("max_steps");
+        return false;
+      }
+      if (Date.now() - trace.startedAt >= limits.timeBudgetMs) {
+        push("limit", `Stopped after ${Math.round(limits.timeBudgetMs / 1000)}s`, { detail: label, status: "skipped" });
+        stop("time_budget");
+        return false;
+      }
+      trace.stepsUsed++;
+      push("read", label, { detail });
+      publish();
+      return true;
+    },
+
+    visit(url) {
+      const key = visitKey(url);
+      if (visited.has(key)) {
+        if (!trace.stopReason) {
+          push("read", "Already visited", { detail: url, status: "skipped" });
+          publish();
+        }
+        return false;
+      }
+      visited.add(key);
+      return true;
+    },
+
+    note(kind, label, fields) {
+      if (trace.stopReason) return;
+      push(kind, label, fields);
+      publish();
+    },
+
+    start,
+
+    async fetch(url, init) {
+      const method = (init?.method ?? "GET").toUpperCase();
+      const finish = start("api", `${method} ${url.split("?")[0]}`, { request: `${method} ${url}` });
+      try {
+        const res = await fetch(url, { ...init, signal: init?.signal ?? controller.signal });
+        // Read a copy so the caller still gets an unread body
+        res.clone().text().then(
+          (body) => finish({ detail: `HTTP ${res.status}`, status: res.ok ? "ok" : "error", response: body }),
+          () => finish({ detail: `HTTP ${res.status}`, status: res.ok ? "ok" : "error" })
+        );
+        return res;
+      } catch (err) {
+        finish({ status: "error", detail: err instanceof Error ? err.message : String(err) });
+        throw err;
+      }
+    },
+
+    async track(work) {
+      inFlight++;
+      try {
+        return await work;
+      } finally {
+        inFlight--;
+        if (inFlight === 0) stop("done");
+      }
+    },
+
+    cancel() {
+      if (trace.stopReason) return;
+      push("cancel", "Cancelled by user");
+      stop("cancelled");
+    },
+  };
+
+  publish();
+  return loop;
+}
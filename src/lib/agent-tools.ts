@@ -0,0 +1,59 @@
+// Senko's browser actions (@/lib/actions) as JSON-schema tools.
+// Shared by /api/chat (sent as the OpenAI `tools` parameter) and page.tsx
+// (tool calls mapped back onto the same actions the [ACTION:TYPE:value] tags produce).
+
+import { listActions } from "@/lib/actions";
+import { formatMcpCall, parseMcpToolName } from "@/lib/mcp/shared";
+import type { ToolDefinition } from "@/lib/providers/types";
+
+export interface AgentAction {
+  type: string;
+  value: string;
+}
+
+export function getToolDefinitions(): ToolDefinition[] {
+  const tools: ToolDefinition[] = [];
+  for (const { tool } of listActions()) {
+    if (!tool) continue;
+    tools.push({
+      type: "function",
+      function: {
+        name: tool.name,
+        description: tool.description,
+        parameters: {
+          type: "object",
+          properties: tool.args,
+          required: tool.required,
+        },
+      },
+    });
+  }
+  return tools;
+}
+
+// Appended to the system prompt when tools are attached, so models that
+// support both don't emit a tag AND a tool call for the same action
+export const TOOL_USE_NOTE =
+  "\n\nTOOLS: The actions above are also available as function tools. Prefer calling the tool over writing an [ACTION:...] tag, and never do both for the same action.";
+
+// Map a streamed tool call back onto an action; null for unknown tools or bad args.
+// MCP server tools (mcp__<server>__<tool>) become MCP actions.
+export function toolCallToAction(name: string, argsJson: string): AgentAction | null {
+  const mcp = parseMcpToolName(name);
+  const action = listActions().find((a) => a.tool?.name === name);
+  const tool = action?.tool;
+  if (!mcp && (!action || !tool)) return null;
+  let args: Record<string, unknown> = {};
+  if (argsJson.trim()) {
+    try {
+      args = JSON.parse(argsJson);
+    } catch {
+      return null;
+    }
+  }
+  if (mcp) return { type: "MCP", value: formatMcpCall(mcp.server, mcp.tool, args) };
+  if (!action || !tool) return null;
+  const value = tool.toValue(args);
+  if (!value) return null;
+  return { type: action.type, value };
+}
@@ -0,0 +1,79 @@
+// Versioned SSE event protocol between /api/chat and streamChat() in page.tsx.
+// Every event is one `data: {"v":1,"type":...}` frame; bump the version on
+// any breaking change to an event's shape.
+
+export const CHAT_PROTOCOL_VERSION = 1;
+
+export interface ChatUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+export interface ProviderFailover {
+  // "provider (model)" that failed
+  from: string;
+  reason: string;
+}
+
+export type ChatStreamEvent =
+  // Sent first: who is answering. Sent again with `failover` when the answer
+  // continues on another provider after the previous one died mid-stream.
+  | { type: "provider"; provider: string; model: string; failover?: ProviderFailover }
+  | { type: "content"; text: string }
+  | { type: "reasoning"; text: string }
+  // Complete tool call, arguments as a JSON string
+  | { type: "tool_call"; id: string; name: string; arguments: string }
+  | ({ type: "usage" } & ChatUsage)
+  // Mid-stream failure; the stream ends after it. `status` is the HTTP-style
+  // code an upstream reported inside its stream (429 for a rate limit).
+  | { type: "error"; message: string; status?: number }
+  | { type: "done" };
+
+export function encodeEvent(event: ChatStreamEvent): string {
+  return `data: ${JSON.stringify({ v: CHAT_PROTOCOL_VERSION, ...event })}\n\n`;
+}
+
+const EVENT_TYPES = new Set(["provider", "content", "reasoning", "tool_call", "usage", "error", "done"]);
+
+// Parse one SSE frame; null for blank, malformed or unknown frames
+export function parseEvent(frame: string): ChatStreamEvent | null {
+  const trimmed = frame.replace(/^data: /, "").trim();
+  if (!trimmed) return null;
+  try {
+    const parsed = JSON.parse(trimmed);
+    if (parsed?.v !== CHAT_PROTOCOL_VERSION || !EVENT_TYPES.has(parsed.type)) return null;
+    delete parsed.v;
+    return parsed as ChatStreamEvent;
+  } catch {
+    return null;
+  }
+}
+
+// Read a /api/chat response body frame by frame until it ends or onEvent returns false
+export async function readChatEvents(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: ChatStreamEvent) => boolean | void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const frames = buffer.split("\n\n");
+    buffer = frames.pop() || "";
+    for (const frame of frames) {
+      const event = parseEvent(frame);
+      if (event && onEvent(event) === false) {
+        reader.cancel().catch(() => {});
+        return;
+      }
+    }
+  }
+
+  const last = parseEvent(buffer);
+  if (last) onEvent(last);
+}
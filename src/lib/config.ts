@@ -16,7 +16,41 @@ export const config = {
   get openRouterApiKey() { return env("OPENROUTER_API_KEY", ""); },
   get openRouterModel() { return env("OPENROUTER_MODEL", "deepseek/deepseek-r1-0528:free"); },
   openRouterUrl: "https://openrouter.ai/api/v1/chat/completions",
-  
+
+  // Provider cascade — comma-separated provider names, tried in order
+  get aiProviders() { return env("AI_PROVIDERS", "groq,ollama,openrouter,lmstudio,llamacpp,vllm,openai"); },
+  get aiProvidersDisabled() { return env("AI_PROVIDERS_DISABLED", ""); },
+
+  // Circuit breaker — base cooldown after repeated failures (doubles per trip) and its cap
+  get providerCooldownMs() { return parseInt(env("PROVIDER_COOLDOWN_MS", "30000")); },
+  get providerCooldownMaxMs() { return parseInt(env("PROVIDER_COOLDOWN_MAX_MS", "300000")); },
+
+  // Mock provider — MOCK_LLM=1 replaces the cascade with scripted fixture replies
+  get mockLlm() { return /^(1|true|yes)$/i.test(env("MOCK_LLM", "")); },
+  get mockLlmFixtures() { return env("MOCK_LLM_FIXTURES", "fixtures/mock-llm"); },
+  get mockLlmChunkSize() { return parseInt(env("MOCK_LLM_CHUNK_SIZE", "8")); },
+  get mockLlmLatencyMs() { return parseInt(env("MOCK_LLM_LATENCY_MS", "25")); },
+
+  // Bearer token for the OpenAI-compatible /v1 gateway — open to anyone when empty
+  get gatewayApiKey() { return env("GATEWAY_API_KEY", ""); },
+
+  // MCP servers to expose as tools — JSON file in the Claude Desktop "mcpServers" format
+  get mcpConfigPath() { return env("MCP_CONFIG", "mcp.json"); },
+
+  // Local / self-hosted OpenAI-compatible servers (enabled by setting the URL)
+  get lmStudioUrl() { return env("LMSTUDIO_URL", ""); },
+  get lmStudioModel() { return env("LMSTUDIO_MODEL", "local-model"); },
+  get llamaCppUrl() { return env("LLAMACPP_URL", ""); },
+  get llamaCppModel() { return env("LLAMACPP_MODEL", "default"); },
+  get vllmUrl() { return env("VLLM_URL", ""); },
+  get vllmApiKey() { return env("VLLM_API_KEY", ""); },
+  get vllmModel() { return env("VLLM_MODEL", ""); },
+
+  // Any other OpenAI-compatible endpoint
+  get openAICompatUrl() { return env("OPENAI_COMPAT_URL", ""); },
+  get openAICompatApiKey() { return env("OPENAI_COMPAT_API_KEY", ""); },
+  get openAICompatModel() { return env("OPENAI_COMPAT_MODEL", ""); },
+
   // Render.com search API (primary — runs Puppeteer + multi-engine scraping)
   get searchApiUrl() { return env("SEARCH_API_URL", ""); },
   
@@ -35,4 +69,9 @@ export const config = {
   get searchMaxRetries() { return parseInt(env("SEARCH_MAX_RETRIES", "3")); },
   get searchBackoffBase() { return parseInt(env("SEARCH_BACKOFF_BASE", "1000")); },
   get searchBackoffMax() { return parseInt(env("SEARCH_BACKOFF_MAX", "15000")); },
+
+  // Retrieval cache lifetimes (ms) per endpoint — 0 disables caching for it
+  get searchCacheTtlSearch() { return parseInt(env("SEARCH_CACHE_TTL_SEARCH", "600000")); },
+  get searchCacheTtlScrape() { return parseInt(env("SEARCH_CACHE_TTL_SCRAPE", "1800000")); },
+  get searchCacheTtlUrl() { return parseInt(env("SEARCH_CACHE_TTL_URL", "1800000")); },
 };
@@ -0,0 +1,262 @@
+// OpenAI-compatible gateway: maps OpenAI chat-completions requests onto the
+// provider cascade and its protocol events back onto `chat.completion` /
+// `chat.completion.chunk` objects. Used by the /v1 routes.
+
+import { timingSafeEqual } from "crypto";
+import { config } from "@/lib/config";
+import { parseEvent, readChatEvents, type ChatStreamEvent, type ChatUsage } from "@/lib/chat-protocol";
+import { getProviderCascade, type ChatMessage, type ToolDefinition } from "@/lib/providers";
+
+// Model id that lets the cascade choose
+export const AUTO_MODEL = "auto";
+
+// -- Errors and auth --------------------------------------------------------
+
+export function openAIError(
+  status: number,
+  message: string,
+  type = "invalid_request_error",
+  headers?: Record<string, string>
+): Response {
+  return Response.json({ error: { message, type, param: null, code: null } }, { status, headers });
+}
+
+// 401 when GATEWAY_API_KEY is set and the request doesn't carry it; null when allowed
+export function checkGatewayAuth(req: Request): Response | null {
+  const key = config.gatewayApiKey;
+  if (!key) return null;
+  const given = req.headers.get("authorization")?.replace(/^Bearer\s+/i, "") ?? "";
+  const a = Buffer.from(given);
+  const b = Buffer.from(key);
+  if (a.length === b.length && timingSafeEqual(a, b)) return null;
+  return openAIError(401, "Invalid or missing API key.", "authentication_error");
+}
+
+// -- Requests ---------------------------------------------------------------
+
+type ContentPart = { type?: string; text?: string };
+
+interface OpenAIMessage {
+  role?: string;
+  content?: string | ContentPart[] | null;
+  tool_calls?: { id?: string; function?: { name?: string; arguments?: string } }[];
+  tool_call_id?: string;
+}
+
+function textOf(content: OpenAIMessage["content"]): string {
+  if (typeof content === "string") return content;
+  if (!Array.isArray(content)) return "";
+  return content.filter((p) => p?.type === "text" && p.text).map((p) => p.text).join("\n");
+}
+
+// Not every provider in the cascade speaks tool messages, so tool calls and
+// their results are folded into plain assistant/user turns
+export function toChatMessages(messages: unknown[]): ChatMessage[] {
+  const out: ChatMessage[] = [];
+  for (const raw of messages as OpenAIMessage[]) {
+    const text = textOf(raw?.content);
+    switch (raw?.role) {
+      case "system":
+      case "developer":
+        out.push({ role: "system", content: text });
+        break;
+      case "user":
+        out.push({ role: "user", content: text });
+        break;
+      case "assistant": {
+        const calls = (raw.tool_calls ?? [])
+          .map((c) => `[called ${c.function?.name ?? "tool"}(${c.function?.arguments ?? ""})]`)
+          .join("\n");
+        out.push({ role: "assistant", content: [text, calls].filter(Boolean).join("\n") });
+        break;
+      }
+      case "tool":
+        out.push({ role: "user", content: `[tool result${raw.tool_call_id ? ` for ${raw.tool_call_id}` : ""}]\n${text}` });
+        break;
+    }
+  }
+  return out;
+}
+
+export function toToolDefinitions(tools: unknown): ToolDefinition[] | undefined {
+  if (!Array.isArray(tools)) return undefined;
+  const defs = tools.filter(
+    (t): t is ToolDefinition => t?.type === "function" && typeof t.function?.name === "string"
+  );
+  return defs.length > 0 ? defs : undefined;
+}
+
+// "provider:model" pins that pair; a bare model id pins the first enabled
+// provider that offers it; "auto" or anything unknown lets the cascade pick
+export function resolveModel(model: unknown): { provider: string; model: string } | undefined {
+  if (typeof model !== "string" || !model || model === AUTO_MODEL) return undefined;
+  const cascade = getProviderCascade();
+  const i = model.indexOf(":");
+  if (i > 0) {
+    const provider = model.slice(0, i);
+    if (cascade.some((p) => p.name === provider)) return { provider, model: model.slice(i + 1) };
+  }
+  const owner = cascade.find((p) => p.models().includes(model) || p.reasoningModels?.().includes(model));
+  return owner ? { provider: owner.name, model } : undefined;
+}
+
+// -- Responses --------------------------------------------------------------
+
+export interface CompletionMeta {
+  id: string;
+  created: number;
+}
+
+export function completionMeta(): CompletionMeta {
+  return {
+    id: `chatcmpl-${crypto.randomUUID().replace(/-/g, "").slice(0, 24)}`,
+    created: Math.floor(Date.now() / 1000),
+  };
+}
+
+const usageOf = (u: ChatUsage) => ({
+  prompt_tokens: u.promptTokens,
+  completion_tokens: u.completionTokens,
+  total_tokens: u.totalTokens,
+});
+
+// Protocol stream -> `chat.completion.chunk` SSE. Cancelling the result
+// cancels the cascade stream, which aborts the upstream request.
+export function toChunkStream(
+  source: ReadableStream<Uint8Array>,
+  meta: CompletionMeta,
+  includeUsage: boolean
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  const decoder = new TextDecoder();
+  let buffer = "";
+  let model = AUTO_MODEL;
+  let toolCalls = 0;
+  let usage: ChatUsage | null = null;
+  let ended = false;
+
+  const frame = (data: unknown) => encoder.encode(`data: ${JSON.stringify(data)}\n\n`);
+  const chunk = (delta: Record<string, unknown>, finishReason: string | null = null) =>
+    frame({
+      id: meta.id,
+      object: "chat.completion.chunk",
+      created: meta.created,
+      model,
+      choices: [{ index: 0, delta, finish_reason: finishReason }],
+    });
+
+  const handle = (event: ChatStreamEvent, controller: TransformStreamDefaultController<Uint8Array>) => {
+    if (ended) return;
+    switch (event.type) {
+      case "provider":
+        model = `${event.provider}:${event.model}`;
+        // First provider event opens the assistant turn; failovers just switch the model
+        if (!event.failover) controller.enqueue(chunk({ role: "assistant", content: "" }));
+        break;
+      case "content":
+        controller.enqueue(chunk({ content: event.text }));
+        break;
+      case "reasoning":
+        controller.enqueue(chunk({ reasoning_content: event.text }));
+        break;
+      case "tool_call":
+        controller.enqueue(chunk({
+          tool_calls: [{
+            index: toolCalls++,
+            id: event.id,
+            type: "function",
+            function: { name: event.name, arguments: event.arguments },
+          }],
+        }));
+        break;
+      case "usage":
+        usage = event;
+        break;
+      case "error":
+        ended = true;
+        controller.enqueue(frame({ error: { message: event.message, type: "upstream_error", param: null, code: null } }));
+        break;
+      case "done":
+        ended = true;
+        controller.enqueue(chunk({}, toolCalls > 0 ? "tool_calls" : "stop"));
+        if (includeUsage && usage) {
+          controller.enqueue(frame({
+            id: meta.id,
+            object: "chat.completion.chunk",
+            created: meta.created,
+            model,
+            choices: [],
+            usage: usageOf(usage),
+          }));
+        }
+        controller.enqueue(encoder.encode("data: [DONE]\n\n"));
+        break;
+    }
+  };
+
+  return source.pipeThrough(
+    new TransformStream<Uint8Array, Uint8Array>({
+      transform(bytes, controller) {
+        buffer += decoder.decode(bytes, { stream: true });
+        const frames = buffer.split("\n\n");
+        buffer = frames.pop() || "";
+        for (const f of frames) {
+          const event = parseEvent(f);
+          if (event) handle(event, controller);
+        }
+      },
+      flush(controller) {
+        const event = parseEvent(buffer);
+        if (event) handle(event, controller);
+      },
+    })
+  );
+}
+
+// Protocol stream -> one `chat.completion` object, or the upstream error
+export async function collectCompletion(
+  source: ReadableStream<Uint8Array>,
+  meta: CompletionMeta
+): Promise<{ completion: Record<string, unknown> } | { error: string }> {
+  let model = AUTO_MODEL;
+  let content = "";
+  let reasoning = "";
+  const toolCalls: { id: string; type: "function"; function: { name: string; arguments: string } }[] = [];
+  let usage: ChatUsage | null = null;
+  let error: string | null = null;
+  let done = false;
+
+  await readChatEvents(source, (event) => {
+    if (event.type === "provider") model = `${event.provider}:${event.model}`;
+    else if (event.type === "content") content += event.text;
+    else if (event.type === "reasoning") reasoning += event.text;
+    else if (event.type === "tool_call") {
+      toolCalls.push({ id: event.id, type: "function", function: { name: event.name, arguments: event.arguments } });
+    } else if (event.type === "usage") usage = event;
+    else if (event.type === "error") error = event.message;
+    else if (event.type === "done") done = true;
+  });
+
+  if (error || !done) return { error: error ?? "The response was cut off before it finished." };
+
+  const finalUsage = usage as ChatUsage | null;
+  return {
+    completion: {
+      id: meta.id,
+      object: "chat.completion",
+      created: meta.created,
+      model,
+      choices: [{
+        index: 0,
+        message: {
+          role: "assistant",
+          content: content || null,
+          ...(reasoning ? { reasoning_content: reasoning } : {}),
+          ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+        },
+        finish_reason: toolCalls.length > 0 ? "tool_calls" : "stop",
+      }],
+      ...(finalUsage ? { usage: usageOf(finalUsage) } : {}),
+    },
+  };
+}
@@ -0,0 +1,35 @@
+// MCP and MCP_READ: the actions the model uses to reach the servers in
+// mcp.json. Their prompt docs are generated per request by /api/chat from
+// whatever the servers expose, so neither is listed in "Available actions".
+
+import type { ActionPlugin } from "@/lib/actions/types";
+import type { McpResult } from "./shared";
+
+// How much of a result is handed back to the model
+const FOLLOW_UP_CHARS = 6000;
+
+function resultText(result: McpResult): string {
+  return result.content
+    .map((c) => {
+      if (c.type === "image") return `(${c.mimeType} image, shown to the user)`;
+      if (c.type === "resource") return c.text ?? `(${c.uri})`;
+      return c.text;
+    })
+    .join("\n\n")
+    .slice(0, FOLLOW_UP_CHARS);
+}
+
+function followUpPrompt(data: unknown): string | null {
+  const result = data as McpResult;
+  if (!result?.content) return null;
+  const what = result.kind === "resource"
+    ? `I read the resource ${result.target} from the MCP server "${result.server}"`
+    : `I called the MCP tool ${result.server}/${result.target}`;
+  const status = result.isError ? "It returned an error" : "Result";
+  return `${what}.\n\n${status}:\n${resultText(result) || "(no output)"}\n\nUse this to answer the user's request. If you need more, call another MCP tool; otherwise reply with the answer (the raw result is already shown to the user, so don't repeat it verbatim).`;
+}
+
+export const mcpActions: ActionPlugin[] = [
+  { type: "MCP", value: "text", server: true, followUpPrompt },
+  { type: "MCP_READ", value: "text", server: true, followUpPrompt },
+];
@@ -0,0 +1,347 @@
+// Client manager for Model Context Protocol servers, configured in mcp.json
+// (MCP_CONFIG) with the same shape Claude Desktop and most MCP servers document:
+//
+//   { "mcpServers": {
+//       "files": { "command": "npx", "args": ["-y", "@modelcontextprotocol/server-filesystem", "/home/me/notes"] },
+//       "remote": { "url": "http://localhost:8931/sse", "headers": { "Authorization": "Bearer ..." } }
+//   } }
+//
+// Servers with a `command` run as child processes over stdio; servers with a
+// `url` are reached over SSE. Connections open on first use and live as long
+// as the Next server. The file is re-read on every lookup, so adding, editing
+// or removing a server applies without a restart. Server-only.
+
+import { promises as fs } from "fs";
+import path from "path";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StdioClientTransport, getDefaultEnvironment } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { SSEClientTransport } from "@modelcontextprotocol/sdk/client/sse.js";
+import { config } from "@/lib/config";
+import type { ToolDefinition } from "@/lib/providers/types";
+import {
+  MCP_SERVER_NAME,
+  mcpToolName,
+  parseMcpCall,
+  parseMcpRead,
+  type McpContent,
+  type McpResult,
+} from "./shared";
+
+export interface McpServerConfig {
+  // stdio
+  command?: string;
+  args?: string[];
+  env?: Record<string, string>;
+  cwd?: string;
+  // SSE
+  url?: string;
+  headers?: Record<string, string>;
+  disabled?: boolean;
+}
+
+export interface McpToolInfo {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+}
+
+export interface McpResourceInfo {
+  uri: string;
+  name: string;
+  description?: string;
+  mimeType?: string;
+}
+
+export interface McpServerStatus {
+  name: string;
+  transport: "stdio" | "sse";
+  connected: boolean;
+  error?: string;
+  tools: McpToolInfo[];
+  resources: McpResourceInfo[];
+}
+
+interface Connection extends McpServerStatus {
+  // Serialized config, to notice edits
+  key: string;
+  client?: Client;
+  failedAt?: number;
+}
+
+const CONNECT_TIMEOUT_MS = 15_000;
+const CALL_TIMEOUT_MS = 60_000;
+// A server that failed to start is retried after this long
+const RETRY_AFTER_MS = 30_000;
+// Results are stored on the message and fed back to the model
+const MAX_TEXT_CHARS = 20_000;
+const MAX_IMAGE_CHARS = 1_500_000;
+// Resources listed in the system prompt per server
+const MAX_PROMPT_RESOURCES = 20;
+
+// Kept on globalThis so dev-mode hot reloads don't spawn every stdio server again
+const globalStore = globalThis as typeof globalThis & { __senkoMcp?: Map<string, Promise<Connection>> };
+const connections = (globalStore.__senkoMcp ??= new Map<string, Promise<Connection>>());
+
+// Last parsed config file, so warnings about it are logged once per edit
+let parsedConfig: { raw: string; servers: Record<string, McpServerConfig> } | null = null;
+
+async function loadServers(): Promise<Record<string, McpServerConfig>> {
+  const file = path.resolve(process.cwd(), config.mcpConfigPath);
+  let raw: string;
+  try {
+    raw = await fs.readFile(file, "utf8");
+  } catch {
+    // No config file: MCP is simply off
+    return {};
+  }
+  if (parsedConfig?.raw === raw) return parsedConfig.servers;
+
+  let servers: Record<string, McpServerConfig>;
+  try {
+    servers = JSON.parse(raw)?.mcpServers ?? {};
+  } catch (err) {
+    console.error(`[mcp] Could not parse ${file}:`, err instanceof Error ? err.message : err);
+    return {};
+  }
+
+  const valid: Record<string, McpServerConfig> = {};
+  for (const [name, server] of Object.entries(servers)) {
+    if (!MCP_SERVER_NAME.test(name)) {
+      console.warn(`[mcp] Skipping "${name}": server names may only use letters, digits and "-"`);
+      continue;
+    }
+    if (server?.disabled) continue;
+    if (!server?.command && !server?.url) {
+      console.warn(`[mcp] Skipping "${name}": needs a "command" or a "url"`);
+      continue;
+    }
+    valid[name] = server;
+  }
+  parsedConfig = { raw, servers: valid };
+  return valid;
+}
+
+function createTransport(server: McpServerConfig) {
+  if (server.url) {
+    return new SSEClientTransport(new URL(server.url), {
+      requestInit: server.headers ? { headers: server.headers } : undefined,
+    });
+  }
+  return new StdioClientTransport({
+    command: server.command!,
+    args: server.args,
+    env: { ...getDefaultEnvironment(), ...server.env },
+    cwd: server.cwd,
+    stderr: "ignore",
+  });
+}
+
+async function connect(name: string, server: McpServerConfig, key: string): Promise<Connection> {
+  const transport = server.url ? "sse" : "stdio";
+  const client = new Client({ name: "senko-ai", version: "2.0.0" });
+  try {
+    await client.connect(createTransport(server), { timeout: CONNECT_TIMEOUT_MS });
+    const capabilities = client.getServerCapabilities();
+
+    const tools: McpToolInfo[] = [];
+    if (capabilities?.tools) {
+      let cursor: string | undefined;
+      do {
+        const page = await client.listTools({ cursor }, { timeout: CONNECT_TIMEOUT_MS });
+        for (const t of page.tools) {
+          tools.push({ name: t.name, description: t.description ?? "", inputSchema: t.inputSchema });
+        }
+        cursor = page.nextCursor;
+      } while (cursor);
+    }
+
+    const resources: McpResourceInfo[] = [];
+    if (capabilities?.resources) {
+      let cursor: string | undefined;
+      do {
+        const page = await client.listResources({ cursor }, { timeout: CONNECT_TIMEOUT_MS });
+        for (const r of page.resources) {
+          resources.push({ uri: r.uri, name: r.name, description: r.description, mimeType: r.mimeType });
+        }
+        cursor = page.nextCursor;
+      } while (cursor);
+    }
+
+    const pending = connections.get(name);
+    client.onclose = () => {
+      // Reconnect on next use, unless this connection was already replaced
+      if (connections.get(name) === pending) connections.delete(name);
+    };
+
+    console.log(`[mcp] ${name}: connected over ${transport} (${tools.length} tools, ${resources.length} resources)`);
+    return { key, name, transport, connected: true, tools, resources, client };
+  } catch (err) {
+    await client.close().catch(() => {});
+    const error = err instanceof Error ? err.message : String(err);
+    console.error(`[mcp] ${name}: ${error}`);
+    return { key, name, transport, connected: false, error, tools: [], resources: [], failedAt: Date.now() };
+  }
+}
+
+async function getConnections(): Promise<Connection[]> {
+  const servers = await loadServers();
+
+  // Close servers that were removed from the config or edited, and drop
+  // failed ones that are due for another try
+  for (const [name, pending] of [...connections]) {
+    const server = servers[name];
+    const conn = await pending;
+    if (!server || conn.key !== JSON.stringify(server) || (conn.failedAt && Date.now() - conn.failedAt > RETRY_AFTER_MS)) {
+      if (connections.get(name) === pending) connections.delete(name);
+      await conn.client?.close().catch(() => {});
+    }
+  }
+
+  return Promise.all(
+    Object.entries(servers).map(([name, server]) => {
+      let pending = connections.get(name);
+      if (!pending) {
+        pending = connect(name, server, JSON.stringify(server));
+        connections.set(name, pending);
+      }
+      return pending;
+    })
+  );
+}
+
+async function getConnection(server: string): Promise<Connection> {
+  const conn = (await getConnections()).find((c) => c.name === server);
+  if (!conn) throw new Error(`No MCP server named "${server}" in ${config.mcpConfigPath}`);
+  if (!conn.client) throw new Error(`MCP server "${server}" is not available: ${conn.error ?? "not connected"}`);
+  return conn;
+}
+
+export async function listMcpServers(): Promise<McpServerStatus[]> {
+  return (await getConnections()).map(({ name, transport, connected, error, tools, resources }) => ({
+    name, transport, connected, error, tools, resources,
+  }));
+}
+
+// MCP tools as native function tools for /api/chat, named mcp__<server>__<tool>
+export async function getMcpToolDefinitions(): Promise<ToolDefinition[]> {
+  const tools: ToolDefinition[] = [];
+  for (const server of await listMcpServers()) {
+    for (const tool of server.tools) {
+      tools.push({
+        type: "function",
+        function: {
+          name: mcpToolName(server.name, tool.name),
+          description: `[${server.name}] ${tool.description}`.slice(0, 1024),
+          parameters: tool.inputSchema,
+        },
+      });
+    }
+  }
+  return tools;
+}
+
+function describeArgs(schema: Record<string, unknown>): string {
+  const properties = (schema.properties ?? {}) as Record<string, { type?: string }>;
+  const required = new Set((schema.required ?? []) as string[]);
+  const args = Object.entries(properties).map(
+    ([key, prop]) => `"${key}": ${prop?.type ?? "any"}${required.has(key) ? "" : "?"}`
+  );
+  return `{${args.join(", ")}}`;
+}
+
+// Appended to the system prompt so tag-only models can use MCP tools too;
+// empty when no server is configured or reachable
+export async function mcpPromptSection(): Promise<string> {
+  const servers = (await listMcpServers()).filter((s) => s.tools.length || s.resources.length);
+  if (!servers.length) return "";
+
+  const lines = [
+    "",
+    "",
+    "MCP TOOLS: Local tool servers are connected. Call a tool with [ACTION:MCP:server/tool {\"arg\": \"value\"}] (JSON arguments on one line) and read a resource with [ACTION:MCP_READ:server uri]. The result is shown to the user and sent back to you to continue.",
+  ];
+  for (const server of servers) {
+    for (const tool of server.tools) {
+      const description = tool.description.split("\n")[0].slice(0, 200);
+      lines.push(`  ${server.name}/${tool.name} ${describeArgs(tool.inputSchema)} - ${description}`);
+    }
+    for (const resource of server.resources.slice(0, MAX_PROMPT_RESOURCES)) {
+      const about = resource.description ? ` - ${resource.description.split("\n")[0].slice(0, 120)}` : "";
+      lines.push(`  resource: ${server.name} ${resource.uri} (${resource.name})${about}`);
+    }
+  }
+  return lines.join("\n");
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_TEXT_CHARS ? `${text.slice(0, MAX_TEXT_CHARS)}\n... (truncated)` : text;
+}
+
+type RawContent = { type: string; text?: string; data?: string; mimeType?: string; uri?: string; name?: string; resource?: { uri: string; mimeType?: string; text?: string } };
+
+function toContent(items: RawContent[]): McpContent[] {
+  const content: McpContent[] = [];
+  for (const item of items) {
+    if (item.type === "text" && item.text !== undefined) {
+      content.push({ type: "text", text: truncate(item.text) });
+    } else if (item.type === "image" && item.data && item.mimeType) {
+      content.push(item.data.length <= MAX_IMAGE_CHARS
+        ? { type: "image", data: item.data, mimeType: item.mimeType }
+        : { type: "text", text: `(${item.mimeType} image omitted: too large)` });
+    } else if (item.type === "resource" && item.resource) {
+      const { uri, mimeType, text } = item.resource;
+      content.push({ type: "resource", uri, mimeType, text: text !== undefined ? truncate(text) : undefined });
+    } else if (item.type === "resource_link" && item.uri) {
+      content.push({ type: "resource", uri: item.uri, mimeType: item.mimeType });
+    } else {
+      content.push({ type: "text", text: `(${item.type} content not shown)` });
+    }
+  }
+  return content;
+}
+
+export async function callMcpTool(server: string, tool: string, args: Record<string, unknown>): Promise<McpResult> {
+  const conn = await getConnection(server);
+  // Native tool calls arrive with the sanitized name
+  const match = conn.tools.find((t) => t.name === tool)
+    ?? conn.tools.find((t) => mcpToolName(server, t.name) === mcpToolName(server, tool));
+  if (!match) throw new Error(`MCP server "${server}" has no tool "${tool}"`);
+
+  console.log(`[mcp] ${server}/${match.name}`, args);
+  const result = await conn.client!.callTool({ name: match.name, arguments: args }, undefined, { timeout: CALL_TIMEOUT_MS });
+  const raw = "content" in result && Array.isArray(result.content) ? (result.content as RawContent[]) : [];
+  return {
+    server,
+    target: match.name,
+    kind: "tool",
+    isError: result.isError === true,
+    content: toContent(raw),
+  };
+}
+
+export async function readMcpResource(server: string, uri: string): Promise<McpResult> {
+  const conn = await getConnection(server);
+  console.log(`[mcp] ${server} read ${uri}`);
+  const result = await conn.client!.readResource({ uri }, { timeout: CALL_TIMEOUT_MS });
+  const content: McpContent[] = result.contents.map((c) =>
+    "text" in c && typeof c.text === "string"
+      ? { type: "resource", uri: c.uri, mimeType: c.mimeType, text: truncate(c.text) }
+      : c.mimeType?.startsWith("image/") && "blob" in c && typeof c.blob === "string" && c.blob.length <= MAX_IMAGE_CHARS
+        ? { type: "image", data: c.blob, mimeType: c.mimeType }
+        : { type: "resource", uri: c.uri, mimeType: c.mimeType }
+  );
+  return { server, target: uri, kind: "resource", isError: false, content };
+}
+
+// Server handlers for the MCP and MCP_READ actions (@/lib/actions/plugins.server)
+export async function runMcpCall(value: string): Promise<McpResult> {
+  const call = parseMcpCall(value);
+  if ("error" in call) throw new Error(call.error);
+  return callMcpTool(call.server, call.tool, call.args);
+}
+
+export async function runMcpRead(value: string): Promise<McpResult> {
+  const read = parseMcpRead(value);
+  if ("error" in read) throw new Error(read.error);
+  return readMcpResource(read.server, read.uri);
+}
@@ -0,0 +1,62 @@
+// Naming and value formats shared by the MCP manager (server) and the MCP
+// actions (client). Safe to import from either side.
+
+// Native tools from MCP servers are named mcp__<server>__<tool>
+export const MCP_TOOL_PREFIX = "mcp__";
+
+// Config keys become part of tool names, so they're restricted
+export const MCP_SERVER_NAME = /^[a-zA-Z0-9-]{1,32}$/;
+
+// OpenAI tool names allow [a-zA-Z0-9_-]{1,64}
+export function mcpToolName(server: string, tool: string): string {
+  return `${MCP_TOOL_PREFIX}${server}__${tool.replace(/[^a-zA-Z0-9_-]/g, "_")}`.slice(0, 64);
+}
+
+export function parseMcpToolName(name: string): { server: string; tool: string } | null {
+  if (!name.startsWith(MCP_TOOL_PREFIX)) return null;
+  const rest = name.slice(MCP_TOOL_PREFIX.length);
+  const i = rest.indexOf("__");
+  return i > 0 ? { server: rest.slice(0, i), tool: rest.slice(i + 2) } : null;
+}
+
+// Value of the MCP action: `server/tool {"json":"args"}`
+export function formatMcpCall(server: string, tool: string, args: Record<string, unknown>): string {
+  return `${server}/${tool} ${JSON.stringify(args)}`;
+}
+
+export function parseMcpCall(value: string): { server: string; tool: string; args: Record<string, unknown> } | { error: string } {
+  const match = /^([^/\s]+)\/(\S+)\s*([\s\S]*)$/.exec(value.trim());
+  if (!match) return { error: `Expected "server/tool {json args}", got "${value}"` };
+  const [, server, tool, rawArgs] = match;
+  if (!rawArgs.trim()) return { server, tool, args: {} };
+  try {
+    const args = JSON.parse(rawArgs);
+    if (typeof args !== "object" || args === null || Array.isArray(args)) {
+      return { error: `Arguments for ${server}/${tool} must be a JSON object` };
+    }
+    return { server, tool, args };
+  } catch {
+    return { error: `Arguments for ${server}/${tool} are not valid JSON` };
+  }
+}
+
+// Value of the MCP_READ action: `server uri`
+export function parseMcpRead(value: string): { server: string; uri: string } | { error: string } {
+  const match = /^(\S+)\s+(\S+)$/.exec(value.trim());
+  return match ? { server: match[1], uri: match[2] } : { error: `Expected "server uri", got "${value}"` };
+}
+
+export type McpContent =
+  | { type: "text"; text: string }
+  | { type: "image"; data: string; mimeType: string }
+  | { type: "resource"; uri: string; mimeType?: string; text?: string };
+
+// What a call or read returns, attached to the reply and rendered in chat
+export interface McpResult {
+  server: string;
+  // Tool name, or the URI read
+  target: string;
+  kind: "tool" | "resource";
+  isError: boolean;
+  content: McpContent[];
+}
@@ -1,2 +1,2 @@
-// This file is deprecated. All AI logic is in /api/chat/route.ts
+// This file is deprecated. Provider adapters live in @/lib/providers
 export {};
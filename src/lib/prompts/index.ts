@@ -0,0 +1,98 @@
+// Versioned system prompt templates, rendered server-side by /api/chat from
+// the template name and structured context the client sends. Prompt text
+// never comes from the client.
+//
+// Templates are plain .txt files named <template>.v<N>.txt. To change one,
+// add the next version next to it and point TEMPLATES at it; the version id
+// goes back to the client as X-Prompt-Version and is stored on the reply.
+
+import { readFileSync } from "fs";
+import path from "path";
+import { actionPromptDocs } from "@/lib/actions";
+import { summaryContext } from "@/lib/summary";
+import type { PromptContext, PromptRequest, PromptTemplateName } from "./types";
+
+export type { PromptContext, PromptRequest, PromptTemplateName } from "./types";
+
+interface PromptTemplate {
+  version: string;
+  text: string;
+  // Whether the device, location, memories, tabs and summary are appended
+  withContext: boolean;
+}
+
+// Read once per server process; this module only runs in API routes
+const PROMPTS_DIR = path.join(process.cwd(), "src", "lib", "prompts");
+const template = (file: string) => readFileSync(path.join(PROMPTS_DIR, file), "utf8");
+
+const TEMPLATES: Record<PromptTemplateName, PromptTemplate> = {
+  senko: { version: "senko.v1", text: template("senko.v1.txt"), withContext: true },
+  summary: { version: "summary.v1", text: template("summary.v1.txt"), withContext: false },
+  title: { version: "title.v1", text: template("title.v1.txt"), withContext: false },
+};
+
+// Client context is untrusted input, so every field is capped
+const MAX_MEMORIES = 50;
+const MAX_TABS = 20;
+const MAX_FIELD_CHARS = 300;
+const MAX_SUMMARY_CHARS = 4000;
+
+export function isPromptTemplate(name: unknown): name is PromptTemplateName {
+  return typeof name === "string" && Object.hasOwn(TEMPLATES, name);
+}
+
+function clip(value: unknown, max = MAX_FIELD_CHARS): string {
+  return String(value ?? "").replace(/\s+/g, " ").trim().slice(0, max);
+}
+
+// {{name}} placeholders in template text
+function fill(text: string): string {
+  const vars: Record<string, () => string> = { actions: actionPromptDocs };
+  return text.replace(/\{\{(\w+)\}\}/g, (match, name: string) => vars[name]?.() ?? match);
+}
+
+function memoryContext(memories: PromptContext["memories"]): string {
+  const entries = Array.isArray(memories) ? memories.slice(-MAX_MEMORIES) : [];
+  if (entries.length === 0) return "";
+  const lines = entries.map((m) => `- ${clip(m?.key, 60)}: ${clip(m?.value)}`).join("\n");
+  return `\nTHINGS I REMEMBER ABOUT THE USER (from previous conversations):\n${lines}\n\nUse this info naturally -- reference their name, interests, preferences when relevant. Don't list these facts back to them unless asked. Just KNOW them like a real friend would.`;
+}
+
+function deviceContext(browser: PromptContext["browser"]): string {
+  if (!browser || typeof browser.userAgent !== "string" || typeof browser.platform !== "string") return "";
+  const ua = browser.userAgent;
+  const device = /tablet|ipad/i.test(ua) ? "Tablet" : /mobile|iphone|android/i.test(ua) ? "Mobile" : "Desktop";
+  const name = ua.includes("Edg") ? "Edge" : ua.includes("Chrome") ? "Chrome" : ua.includes("Firefox") ? "Firefox" : ua.includes("Safari") ? "Safari" : "Unknown";
+  const os = browser.platform.startsWith("Win") ? "Windows" : browser.platform.startsWith("Mac") ? "macOS" : browser.platform.startsWith("Linux") ? "Linux" : clip(browser.platform, 40);
+  return `\n\nUser Device: ${device} | ${name} | ${os} | ${clip(browser.screenResolution, 20)} | ${Number(browser.hardwareConcurrency) || 0} cores | ${clip(browser.language, 20)} | ${clip(browser.timezone, 60)} | ${browser.onLine ? "Online" : "Offline"}`;
+}
+
+function locationContext(location: PromptContext["location"]): string {
+  const latitude = Number(location?.latitude);
+  const longitude = Number(location?.longitude);
+  if (!location || !Number.isFinite(latitude) || !Number.isFinite(longitude)) return "";
+  return `\nUser Location: ${latitude}, ${longitude}`;
+}
+
+function tabsContext(tabs: PromptContext["tabs"]): string {
+  const open = Array.isArray(tabs) ? tabs.slice(0, MAX_TABS) : [];
+  if (open.length === 0) return "";
+  const lines = open.map((t, i) => `${i + 1}. ${clip(t?.title, 120) || "Untitled"} - ${clip(t?.url)}${t?.active ? " (active)" : ""}`);
+  return `\n\nTABS OPEN IN SENKO'S TAB BAR:\n${lines.join("\n")}`;
+}
+
+export function renderPrompt({ template, context }: PromptRequest): { text: string; version: string } {
+  const { version, text, withContext } = TEMPLATES[template];
+  let prompt = fill(text.trimEnd());
+  if (withContext && context) {
+    prompt += memoryContext(context.memories);
+    prompt += deviceContext(context.browser);
+    prompt += locationContext(context.location);
+    prompt += tabsContext(context.tabs);
+    const summary = context.summary;
+    if (summary && typeof summary.text === "string") {
+      prompt += summaryContext({ text: summary.text.slice(0, MAX_SUMMARY_CHARS), coveredCount: Number(summary.coveredCount) || 0 });
+    }
+  }
+  return { text: prompt, version };
+}
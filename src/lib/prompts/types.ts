@@ -0,0 +1,21 @@
+// What the client sends to /api/chat instead of a system prompt: the template
+// to use and the structured context to fill it with. Rendered by @/lib/prompts.
+
+import type { BrowserInfo } from "@/types/chat";
+
+export type PromptTemplateName = "senko" | "summary" | "title";
+
+export interface PromptContext {
+  browser?: BrowserInfo | null;
+  // Only when the user granted location access
+  location?: { latitude: number; longitude: number } | null;
+  memories?: { key: string; value: string }[];
+  tabs?: { title: string; url: string; active?: boolean }[];
+  // Rolling summary standing in for the older turns
+  summary?: { text: string; coveredCount: number };
+}
+
+export interface PromptRequest {
+  template: PromptTemplateName;
+  context?: PromptContext;
+}
@@ -0,0 +1,238 @@
+import { config } from "@/lib/config";
+import { fitToContext, getContextWindow } from "@/lib/tokens";
+import { createFailoverStream, CONTINUE_PROMPT, type OpenedStream } from "./failover";
+import { getProviderCascade } from "./registry";
+import {
+  isAvailable,
+  claimAttempt,
+  nextAvailableAt,
+  probeProvider,
+  invalidateProbe,
+  recordFailure,
+  recordSuccess,
+  recordCancellation,
+} from "./health";
+import {
+  DEFAULT_MAX_TOKENS,
+  type ChatMessage,
+  type ProviderAdapter,
+  type ProviderHttpError,
+  type ToolDefinition,
+} from "./types";
+
+// -- Provider cascade -------------------------------------------------------
+// One chat request against the whole cascade, shared by /api/chat and the
+// OpenAI-compatible /v1/chat/completions facade. Walks the providers in
+// AI_PROVIDERS order, skipping models on cooldown and local servers that are
+// down, and wraps the first one that answers in a failover stream so a
+// mid-stream death continues on the next. The result speaks the protocol in
+// @/lib/chat-protocol.
+
+export interface CascadeRequest {
+  // Full conversation, system prompt included
+  messages: ChatMessage[];
+  // Only sent to tool-capable providers; the others get plain chat
+  tools?: ToolDefinition[];
+  // Appended to the system prompt whenever `tools` are sent
+  toolNote?: string;
+  // Try reasoning models first and stream their reasoning
+  thinking?: boolean;
+  // Tried before the rest of the cascade, if its provider is enabled
+  pinned?: { provider: string; model: string };
+  // Untrusted client values — clamped here, ignored when not a number
+  temperature?: number;
+  maxTokens?: number;
+  signal: AbortSignal;
+}
+
+export type CascadeResult =
+  | { ok: true; stream: ReadableStream<Uint8Array>; provider: ProviderAdapter; model: string }
+  // `aborted`: the client went away before any provider answered
+  | { ok: false; aborted: boolean; error: string; retryAfter: number | null };
+
+function isVercel(): boolean {
+  return !!process.env.VERCEL;
+}
+
+// Trim the oldest turns so prompt + reply fit the model's window. A requested
+// output cap is honoured up to half the window; the default stays at a quarter.
+function budgetFor(messages: ChatMessage[], model: string, requested?: number) {
+  const window = getContextWindow(model);
+  const maxTokens = requested
+    ? Math.min(requested, Math.floor(window / 2))
+    : Math.min(DEFAULT_MAX_TOKENS, Math.floor(window / 4));
+  const { messages: kept, dropped, tokens } = fitToContext(messages, window, maxTokens);
+  if (dropped.length === 0) return { messages: kept, maxTokens };
+
+  console.log(`[chat] Trimmed ${dropped.length} older messages for ${model} (~${tokens}/${window} tokens)`);
+  const note: ChatMessage = {
+    role: "system",
+    content: `[${dropped.length} earlier messages were omitted to fit the context window.]`,
+  };
+  const systemCount = kept.filter((m) => m.role === "system").length;
+  return {
+    messages: [...kept.slice(0, systemCount), note, ...kept.slice(systemCount)],
+    maxTokens,
+  };
+}
+
+// Provider/model pairs in the order they should be tried
+function planAttempts(
+  cascade: ProviderAdapter[],
+  thinking: boolean,
+  pinned?: { provider: string; model: string }
+) {
+  const attempts: { provider: ProviderAdapter; model: string }[] = [];
+  const seen = new Set<string>();
+  const add = (provider: ProviderAdapter, model: string) => {
+    const key = `${provider.name}:${model}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    attempts.push({ provider, model });
+  };
+
+  // An explicitly requested model goes first, if its provider is enabled
+  if (pinned) {
+    const provider = cascade.find((p) => p.name === pinned.provider);
+    if (provider) add(provider, pinned.model);
+    else console.log(`[chat] Requested provider ${pinned.provider} is not in the cascade, ignoring`);
+  }
+  if (thinking) {
+    for (const provider of cascade) {
+      if (!provider.capabilities.reasoning) continue;
+      for (const model of provider.reasoningModels?.() ?? []) add(provider, model);
+    }
+  }
+  for (const provider of cascade) {
+    for (const model of provider.models()) add(provider, model);
+  }
+  return attempts;
+}
+
+function numberIn(value: unknown, min: number, max: number): number | undefined {
+  if (typeof value !== "number" || !Number.isFinite(value)) return undefined;
+  return Math.min(Math.max(value, min), max);
+}
+
+export async function openCascadeStream(req: CascadeRequest): Promise<CascadeResult> {
+  const { messages, tools, toolNote, thinking = false, pinned, signal } = req;
+  const temperature = numberIn(req.temperature, 0, 2);
+  const maxTokensCap = numberIn(req.maxTokens, 1, 131_072);
+  const requestedMaxTokens = maxTokensCap && Math.round(maxTokensCap);
+
+  // Same conversation, with the system prompt nudged towards tool calls
+  const toolMessages: ChatMessage[] = toolNote
+    ? messages.map((m, i) => (i === 0 && m.role === "system" ? { ...m, content: m.content + toolNote } : m))
+    : messages;
+
+  let localProviderUp = false;
+  const attempts = planAttempts(getProviderCascade(), thinking, pinned);
+
+  // Open the first attempt from `start` that answers. A non-empty `partial`
+  // means we're resuming a cut-off answer, so it goes in as the assistant's
+  // turn followed by a nudge to carry on from there.
+  const tryOpen = async (start: number, partial: string): Promise<OpenedStream | null> => {
+    for (let i = start; i < attempts.length; i++) {
+      if (signal.aborted) return null;
+      const { provider, model } = attempts[i];
+      if (!isAvailable(provider.name, model)) {
+        console.log(`[chat] Skipping ${provider.label} ${model} (cooling down)`);
+        continue;
+      }
+      // Local servers get a cached probe so a stopped daemon doesn't eat the timeout
+      if (provider.capabilities.local) {
+        if (!(await probeProvider(provider))) continue;
+        localProviderUp = true;
+      }
+      // Another request holds the half-open trial
+      if (!claimAttempt(provider.name, model)) {
+        console.log(`[chat] Skipping ${provider.label} ${model} (trial in progress)`);
+        continue;
+      }
+
+      const withTools = !!tools?.length && provider.capabilities.tools;
+      const base = withTools ? toolMessages : messages;
+      const continued: ChatMessage[] = partial
+        ? [...base, { role: "assistant", content: partial }, { role: "user", content: CONTINUE_PROMPT }]
+        : base;
+      const { messages: providerMessages, maxTokens } = budgetFor(continued, model, requestedMaxTokens);
+
+      try {
+        console.log(`[chat] Trying ${provider.label} model: ${model}${withTools ? " (tools)" : ""}${thinking ? " (thinking)" : ""}${partial ? " (continuing)" : ""}`);
+        const stream = await provider.stream(providerMessages, {
+          model,
+          tools: withTools ? tools : undefined,
+          reasoning: thinking,
+          maxTokens,
+          temperature,
+          signal,
+        });
+        // Success is recorded once the answer has streamed to the end
+        return { provider, model, stream, attempt: i };
+      } catch (err) {
+        if (signal.aborted) {
+          console.log(`[chat] ${provider.label} ${model} cancelled by client`);
+          recordCancellation(provider.name, model);
+          return null;
+        }
+        console.error(`[chat] ${provider.label} ${model} failed:`, err instanceof Error ? err.message : err);
+        const httpErr = err as Partial<ProviderHttpError>;
+        recordFailure(provider.name, model, {
+          status: httpErr.status,
+          retryAfterMs: httpErr.retryAfterMs,
+          message: err instanceof Error ? err.message : String(err),
+        });
+        // Connection refused etc. — re-probe next time instead of trusting the cache
+        if (provider.capabilities.local && httpErr.status === undefined) invalidateProbe(provider.name);
+      }
+    }
+    return null;
+  };
+
+  const first = await tryOpen(0, "");
+  if (first) {
+    const stream = createFailoverStream(
+      first,
+      (failed, partial, failure) => {
+        recordFailure(failed.provider.name, failed.model, failure);
+        return tryOpen(failed.attempt + 1, partial);
+      },
+      signal,
+      (current) => {
+        console.log(`[chat] ${current.provider.label} ${current.model} cancelled by client`);
+        recordCancellation(current.provider.name, current.model);
+      },
+      (current) => recordSuccess(current.provider.name, current.model)
+    );
+    return { ok: true, stream, provider: first.provider, model: first.model };
+  }
+
+  // Client gave up while we were still looking for a provider
+  if (signal.aborted) {
+    return { ok: false, aborted: true, error: "Request cancelled", retryAfter: null };
+  }
+
+  // Everything failed — provide a detailed, actionable error
+  const hasAnyKey = !!(config.openRouterApiKey || config.groqApiKey);
+  const ollamaChecked = !isVercel();
+
+  let error: string;
+  if (!hasAnyKey && !ollamaChecked) {
+    error = "No AI providers configured. Please set OPENROUTER_API_KEY or GROQ_API_KEY in your .env.local file, or start Ollama locally (ollama serve).";
+  } else if (!hasAnyKey && ollamaChecked && !localProviderUp) {
+    error = "No cloud AI keys configured and Ollama is not running. Either set OPENROUTER_API_KEY or GROQ_API_KEY in .env.local, or start Ollama with: ollama serve";
+  } else if (hasAnyKey && !localProviderUp) {
+    error = "All cloud AI models are currently rate-limited or unavailable. Try again in a minute, or start Ollama locally as a fallback (ollama serve).";
+  } else {
+    error = "All AI providers failed. Please try again in a moment.";
+  }
+
+  // Some models were skipped on cooldown — tell the client when to come back
+  const retryAt = nextAvailableAt(attempts.map(({ provider, model }) => ({ provider: provider.name, model })));
+  const retryAfter = retryAt ? Math.max(1, Math.ceil((retryAt - Date.now()) / 1000)) : null;
+  if (retryAfter) {
+    error += ` (Models cooling down — retry in ${retryAfter}s.)`;
+  }
+
+  return { ok: false, aborted: false, error, retryAfter };
+}
@@ -0,0 +1,144 @@
+import { encodeEvent, parseEvent, type ChatStreamEvent } from "@/lib/chat-protocol";
+import type { ProviderAdapter } from "./types";
+
+// -- Mid-stream failover ----------------------------------------------------
+// A provider can return 200 and then die halfway through (rate limit, reset).
+// The failover stream watches each provider stream for an `error` event or an
+// early end, then asks the caller to reopen on the next provider with the
+// partial answer so far, and keeps streaming as one continuous message.
+
+export interface OpenedStream {
+  provider: ProviderAdapter;
+  model: string;
+  stream: ReadableStream<Uint8Array>;
+  // Position in the caller's attempt list, so reopen can resume after it
+  attempt: number;
+}
+
+// Why a provider stream stopped early; `status` when the upstream said (429...)
+export interface StreamFailure {
+  message: string;
+  status?: number;
+}
+
+// Opens the next provider after `failed`, continuing from `partial`; null when none are left
+export type Reopen = (failed: OpenedStream, partial: string, failure: StreamFailure) => Promise<OpenedStream | null>;
+
+// Called instead of reopen when the stream ends because the client aborted
+export type OnCancel = (current: OpenedStream) => void;
+
+// Called once the provider that finished the answer has sent its last event
+export type OnComplete = (current: OpenedStream) => void;
+
+export function createFailoverStream(
+  first: OpenedStream,
+  reopen: Reopen,
+  signal?: AbortSignal,
+  onCancel?: OnCancel,
+  onComplete?: OnComplete
+): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  let reader: ReadableStreamDefaultReader<Uint8Array> | null = null;
+  let cancelled = false;
+  let current: OpenedStream = first;
+
+  // A user abort is not a provider failure — never fail over because of one
+  const markCancelled = () => {
+    if (cancelled) return;
+    cancelled = true;
+    onCancel?.(current);
+  };
+  if (signal?.aborted) markCancelled();
+  signal?.addEventListener("abort", markCancelled, { once: true });
+  // Once the answer is complete a late abort (connection teardown) means nothing
+  const settle = () => signal?.removeEventListener("abort", markCancelled);
+
+  // Forward one provider stream; resolves to the failure, or null once it finished
+  const pump = async (
+    opened: OpenedStream,
+    send: (event: ChatStreamEvent) => void,
+    onContent: (text: string) => void
+  ): Promise<StreamFailure | null> => {
+    const r = opened.stream.getReader();
+    reader = r;
+    const decoder = new TextDecoder();
+    let buffer = "";
+    try {
+      while (true) {
+        const { done, value } = await r.read();
+        if (done) return cancelled ? null : { message: "Stream ended unexpectedly" };
+        buffer += decoder.decode(value, { stream: true });
+        const frames = buffer.split("\n\n");
+        buffer = frames.pop() || "";
+        for (const frame of frames) {
+          const event = parseEvent(frame);
+          if (!event || event.type === "provider") continue;
+          if (event.type === "done") return null;
+          if (event.type === "error") {
+            r.cancel().catch(() => {});
+            return { message: event.message, status: event.status };
+          }
+          if (event.type === "content") onContent(event.text);
+          send(event);
+        }
+      }
+    } catch (err) {
+      return cancelled ? null : { message: err instanceof Error ? err.message : "Stream failed" };
+    }
+  };
+
+  return new ReadableStream({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => {
+        if (!cancelled) controller.enqueue(encoder.encode(encodeEvent(event)));
+      };
+      let partial = "";
+
+      send({ type: "provider", provider: first.provider.name, model: first.model });
+
+      while (true) {
+        const failure = await pump(current, send, (text) => { partial += text; });
+        if (cancelled || signal?.aborted) {
+          markCancelled();
+          try {
+            controller.close();
+          } catch {
+            // already cancelled by the consumer
+          }
+          return;
+        }
+        if (failure === null) break;
+
+        const label = `${current.provider.name} (${current.model})`;
+        console.error(`[chat] ${label} failed mid-stream after ${partial.length} chars: ${failure.message}`);
+        const next = await reopen(current, partial, failure);
+        if (!next) {
+          settle();
+          send({ type: "error", message: failure.message });
+          controller.close();
+          return;
+        }
+        send({
+          type: "provider",
+          provider: next.provider.name,
+          model: next.model,
+          failover: { from: label, reason: failure.message },
+        });
+        current = next;
+      }
+
+      settle();
+      onComplete?.(current);
+      send({ type: "done" });
+      controller.close();
+    },
+    cancel(reason) {
+      markCancelled();
+      reader?.cancel(reason).catch(() => {});
+    },
+  });
+}
+
+// Sent after the partial answer to ask the next provider to pick up where the last one stopped
+export const CONTINUE_PROMPT =
+  "[Your previous reply was cut off mid-stream. Continue it exactly where it stopped — no repetition, no preamble, no acknowledgement.]";
@@ -0,0 +1,241 @@
+import { config } from "@/lib/config";
+import type { ProviderAdapter } from "./types";
+
+// -- Provider health tracker ------------------------------------------------
+// In-process circuit breaker shared by every /api/chat request. Failures are
+// recorded per provider+model; a rate limit (or too many failures in a row)
+// opens the circuit for a cooldown, and the cascade skips that model until it
+// expires. After the cooldown one request is let through (half-open) while
+// the others keep skipping the model: an answer that streams to the end closes
+// the circuit, a failure re-opens it with a doubled cooldown.
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+interface ModelHealth {
+  failures: number;
+  // User aborts — tracked for visibility, never counted against the circuit
+  cancellations: number;
+  // Consecutive times the circuit has opened — drives the backoff
+  trips: number;
+  openUntil: number;
+  // When the half-open trial request was let through, 0 when none is running
+  trialStartedAt: number;
+  lastError?: string;
+  lastStatus?: number;
+  lastFailureAt?: number;
+  lastSuccessAt?: number;
+  lastCancelledAt?: number;
+}
+
+export interface FailureInfo {
+  status?: number;
+  retryAfterMs?: number;
+  message?: string;
+}
+
+// Consecutive non-rate-limit failures before the circuit opens
+const FAILURE_THRESHOLD = 3;
+// Bad keys won't fix themselves between requests
+const AUTH_COOLDOWN_MS = 10 * 60_000;
+// A trial that never reported back (lost stream) stops blocking after this
+const TRIAL_TIMEOUT_MS = 2 * 60_000;
+// How long a local server probe result is trusted
+const PROBE_TTL_UP_MS = 30_000;
+const PROBE_TTL_DOWN_MS = 10_000;
+
+const models = new Map<string, ModelHealth>();
+const probes = new Map<string, { up: boolean; checkedAt: number }>();
+
+const keyOf = (provider: string, model: string) => `${provider}:${model}`;
+
+function entry(provider: string, model: string): ModelHealth {
+  const key = keyOf(provider, model);
+  let h = models.get(key);
+  if (!h) {
+    h = { failures: 0, cancellations: 0, trips: 0, openUntil: 0, trialStartedAt: 0 };
+    models.set(key, h);
+  }
+  return h;
+}
+
+function stateOf(h: ModelHealth, now = Date.now()): CircuitState {
+  if (h.openUntil > now) return "open";
+  return h.trips > 0 ? "half-open" : "closed";
+}
+
+// -- Recording --------------------------------------------------------------
+
+export function recordSuccess(provider: string, model: string) {
+  const h = entry(provider, model);
+  h.failures = 0;
+  h.trips = 0;
+  h.openUntil = 0;
+  h.trialStartedAt = 0;
+  h.lastSuccessAt = Date.now();
+}
+
+// The client went away (Stop button, closed tab). Says nothing about the
+// model's health, so the circuit and failure streak are left alone.
+export function recordCancellation(provider: string, model: string) {
+  const h = entry(provider, model);
+  h.cancellations++;
+  h.trialStartedAt = 0;
+  h.lastCancelledAt = Date.now();
+}
+
+export function recordFailure(provider: string, model: string, info: FailureInfo = {}) {
+  const h = entry(provider, model);
+  const now = Date.now();
+  h.failures++;
+  h.lastError = info.message?.slice(0, 300);
+  h.lastStatus = info.status;
+  h.lastFailureAt = now;
+  h.trialStartedAt = 0;
+
+  const rateLimited = info.status === 429 || info.retryAfterMs !== undefined;
+  const authFailed = info.status === 401 || info.status === 403;
+  // Half-open trial failed — straight back to open
+  const trialFailed = h.trips > 0;
+  if (!rateLimited && !authFailed && !trialFailed && h.failures < FAILURE_THRESHOLD) return;
+
+  h.trips++;
+  const backoff = Math.min(config.providerCooldownMs * 2 ** (h.trips - 1), config.providerCooldownMaxMs);
+  const cooldown = authFailed
+    ? AUTH_COOLDOWN_MS
+    : info.retryAfterMs !== undefined
+      ? Math.min(Math.max(info.retryAfterMs, 1000), config.providerCooldownMaxMs)
+      : backoff;
+  h.openUntil = now + cooldown;
+  console.warn(`[health] Circuit open for ${keyOf(provider, model)} for ${Math.round(cooldown / 1000)}s (${info.status ?? "error"})`);
+}
+
+// -- Queries ----------------------------------------------------------------
+
+export function isAvailable(provider: string, model: string): boolean {
+  const h = models.get(keyOf(provider, model));
+  return !h || stateOf(h) !== "open";
+}
+
+// isAvailable() for a request that's about to use the model: a half-open
+// model admits one trial at a time, so concurrent requests skip it until the
+// trial has succeeded or failed
+export function claimAttempt(provider: string, model: string): boolean {
+  const h = models.get(keyOf(provider, model));
+  if (!h) return true;
+  const now = Date.now();
+  const state = stateOf(h, now);
+  if (state === "open") return false;
+  if (state === "half-open") {
+    if (h.trialStartedAt && now - h.trialStartedAt < TRIAL_TIMEOUT_MS) return false;
+    h.trialStartedAt = now;
+  }
+  return true;
+}
+
+// Earliest time any of the given models comes off cooldown, or null if none are open
+export function nextAvailableAt(pairs: { provider: string; model: string }[]): number | null {
+  let soonest: number | null = null;
+  for (const { provider, model } of pairs) {
+    const h = models.get(keyOf(provider, model));
+    if (h && stateOf(h) === "open" && (soonest === null || h.openUntil < soonest)) {
+      soonest = h.openUntil;
+    }
+  }
+  return soonest;
+}
+
+// Cached healthCheck() for local servers — a stopped daemon is probed at most
+// every few seconds instead of on every request
+export async function probeProvider(provider: ProviderAdapter): Promise<boolean> {
+  const cached = probes.get(provider.name);
+  const now = Date.now();
+  if (cached && now - cached.checkedAt < (cached.up ? PROBE_TTL_UP_MS : PROBE_TTL_DOWN_MS)) {
+    return cached.up;
+  }
+  const up = await provider.healthCheck();
+  probes.set(provider.name, { up, checkedAt: Date.now() });
+  return up;
+}
+
+// Forget a cached probe, e.g. after a local server refused a request
+export function invalidateProbe(provider: string) {
+  probes.delete(provider);
+}
+
+export interface ModelHealthSnapshot {
+  model: string;
+  state: CircuitState;
+  failures: number;
+  cancellations: number;
+  retryAt: string | null;
+  lastError: string | null;
+  lastStatus: number | null;
+  lastFailureAt: string | null;
+  lastSuccessAt: string | null;
+  lastCancelledAt: string | null;
+}
+
+export function getModelHealth(provider: string, model: string): ModelHealthSnapshot {
+  const h = models.get(keyOf(provider, model));
+  const iso = (t?: number) => (t ? new Date(t).toISOString() : null);
+  return {
+    model,
+    state: h ? stateOf(h) : "closed",
+    failures: h?.failures ?? 0,
+    cancellations: h?.cancellations ?? 0,
+    retryAt: h && stateOf(h) === "open" ? iso(h.openUntil) : null,
+    lastError: h?.lastError ?? null,
+    lastStatus: h?.lastStatus ?? null,
+    lastFailureAt: iso(h?.lastFailureAt),
+    lastSuccessAt: iso(h?.lastSuccessAt),
+    lastCancelledAt: iso(h?.lastCancelledAt),
+  };
+}
+
+export function getProbe(provider: string): { up: boolean; checkedAt: string } | null {
+  const p = probes.get(provider);
+  return p ? { up: p.up, checkedAt: new Date(p.checkedAt).toISOString() } : null;
+}
+
+// -- Rate-limit headers -----------------------------------------------------
+
+// Groq-style durations: "2m59.56s", "7.66s", "120ms"
+function parseDuration(value: string): number | undefined {
+  const re = /(\d+(?:\.\d+)?)(ms|h|m|s)/g;
+  let total = 0;
+  let matched = false;
+  let m;
+  while ((m = re.exec(value)) !== null) {
+    matched = true;
+    const n = parseFloat(m[1]);
+    total += m[2] === "h" ? n * 3_600_000 : m[2] === "m" ? n * 60_000 : m[2] === "s" ? n * 1000 : n;
+  }
+  return matched ? total : undefined;
+}
+
+// How long the upstream asked us to wait, from Retry-After or rate-limit reset headers
+export function parseRetryAfter(headers: Headers): number | undefined {
+  const retryAfter = headers.get("retry-after");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  // Only trust reset headers when the matching budget is actually spent
+  for (const kind of ["requests", "tokens"]) {
+    if (headers.get(`x-ratelimit-remaining-${kind}`) !== "0") continue;
+    const reset = headers.get(`x-ratelimit-reset-${kind}`);
+    const ms = reset ? parseDuration(reset) : undefined;
+    if (ms !== undefined) return ms;
+  }
+
+  // OpenRouter: X-RateLimit-Reset is an epoch timestamp in ms
+  const reset = headers.get("x-ratelimit-reset");
+  if (reset && headers.get("x-ratelimit-remaining") === "0") {
+    const at = Number(reset);
+    if (!Number.isNaN(at)) return Math.max(0, at - Date.now());
+  }
+  return undefined;
+}
@@ -0,0 +1,20 @@
+export * from "./types";
+export { createSSEStream, createOpenAIDecoder, createOllamaDecoder } from "./sse";
+export { createFailoverStream, CONTINUE_PROMPT, type OpenedStream, type StreamFailure } from "./failover";
+export { openCascadeStream, type CascadeRequest, type CascadeResult } from "./cascade";
+export { createOpenAICompatibleProvider } from "./openai-compatible";
+export { registerProvider, getProvider, listProviders, getProviderCascade } from "./registry";
+export {
+  recordSuccess,
+  recordFailure,
+  recordCancellation,
+  isAvailable,
+  claimAttempt,
+  nextAvailableAt,
+  probeProvider,
+  invalidateProbe,
+  getModelHealth,
+  getProbe,
+  type CircuitState,
+  type ModelHealthSnapshot,
+} from "./health";
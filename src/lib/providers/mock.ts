@@ -0,0 +1,186 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { config } from "@/lib/config";
+import { estimateMessageTokens, estimateTokens } from "@/lib/tokens";
+import { createOpenAIDecoder, createSSEStream } from "./sse";
+import { providerError, type ChatMessage, type ProviderAdapter } from "./types";
+
+// -- Mock provider ----------------------------------------------------------
+// Replays scripted answers from JSON fixtures (MOCK_LLM_FIXTURES, default
+// fixtures/mock-llm) so the whole agent flow runs with no network and no keys.
+// MOCK_LLM=1 makes it the only provider in the cascade. Fixtures are read on
+// every request, sorted by file name; the first whose patterns match wins.
+// The answer is streamed as OpenAI-style SSE through the real decoder.
+
+export interface MockFixture {
+  // Regex (case-insensitive) tested against the last user message; omit to match anything
+  match?: string;
+  // Regex tested against the system prompt
+  system?: string;
+  // {{input}} is the last user message, {{1}}, {{2}}... the `match` groups
+  response: string;
+  // Streamed as reasoning when the request asked for it
+  reasoning?: string;
+  // Emitted as native tool calls when the request sent tools
+  toolCalls?: { name: string; arguments: Record<string, unknown> }[];
+  // Per-fixture overrides of MOCK_LLM_CHUNK_SIZE / MOCK_LLM_LATENCY_MS
+  chunkSize?: number;
+  latencyMs?: number;
+  // Fail before streaming with this HTTP status (e.g. 429 to exercise the cascade)
+  status?: number;
+  // Drop the connection after this many chunks (exercises mid-stream failover)
+  failAfterChunks?: number;
+}
+
+const FALLBACK_RESPONSE = "Mock model here~ no fixture matched that message. [STATUS:chill:just pretending to think]";
+
+async function loadFixtures(): Promise<{ file: string; fixture: MockFixture }[]> {
+  const dir = path.resolve(process.cwd(), config.mockLlmFixtures);
+  let files: string[];
+  try {
+    files = (await fs.readdir(dir)).filter((f) => f.endsWith(".json")).sort();
+  } catch {
+    console.warn(`[mock] Fixture directory not found: ${dir}`);
+    return [];
+  }
+  const fixtures: { file: string; fixture: MockFixture }[] = [];
+  for (const file of files) {
+    try {
+      const fixture = JSON.parse(await fs.readFile(path.join(dir, file), "utf8")) as MockFixture;
+      if (typeof fixture.response === "string") fixtures.push({ file, fixture });
+    } catch (err) {
+      console.warn(`[mock] Skipping ${file}:`, err instanceof Error ? err.message : err);
+    }
+  }
+  return fixtures;
+}
+
+function render(template: string, input: string, groups: string[]): string {
+  return template.replace(/\{\{(input|\d+)\}\}/g, (_, key: string) =>
+    key === "input" ? input : groups[Number(key)] ?? ""
+  );
+}
+
+async function pickFixture(messages: ChatMessage[]): Promise<{ fixture: MockFixture; fill: (t: string) => string }> {
+  const input = [...messages].reverse().find((m) => m.role === "user")?.content.trim() ?? "";
+  const system = messages.filter((m) => m.role === "system").map((m) => m.content).join("\n");
+
+  for (const { file, fixture } of await loadFixtures()) {
+    try {
+      if (fixture.system && !new RegExp(fixture.system, "i").test(system)) continue;
+      const groups = fixture.match ? new RegExp(fixture.match, "i").exec(input) : [];
+      if (!groups) continue;
+      console.log(`[mock] Replaying ${file}`);
+      return { fixture, fill: (t) => render(t, input, [...groups]) };
+    } catch (err) {
+      console.warn(`[mock] Bad pattern in ${file}:`, err instanceof Error ? err.message : err);
+    }
+  }
+  return { fixture: { response: FALLBACK_RESPONSE }, fill: (t) => t };
+}
+
+function chunksOf(text: string, size: number): string[] {
+  const out: string[] = [];
+  for (let i = 0; i < text.length; i += size) out.push(text.slice(i, i + size));
+  return out;
+}
+
+const sseLine = (data: unknown) => `data: ${JSON.stringify(data)}\n`;
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve) => {
+    if (ms <= 0 || signal?.aborted) return resolve();
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener("abort", () => { clearTimeout(timer); resolve(); }, { once: true });
+  });
+
+export const mockProvider: ProviderAdapter = {
+  name: "mock",
+  label: "Mock",
+  capabilities: { tools: true, reasoning: true, local: false },
+
+  isConfigured() {
+    return true;
+  },
+
+  models() {
+    return ["mock-model"];
+  },
+
+  reasoningModels() {
+    return ["mock-model"];
+  },
+
+  async stream(messages, { signal, tools, reasoning }) {
+    const { fixture, fill } = await pickFixture(messages);
+    const text = fill(fixture.response);
+    if (fixture.status) {
+      throw providerError("Mock", fixture.status, `Scripted ${fixture.status} from fixture`);
+    }
+
+    const size = Math.max(1, fixture.chunkSize ?? config.mockLlmChunkSize);
+    const latency = fixture.latencyMs ?? config.mockLlmLatencyMs;
+    const lines: string[] = [];
+    if (reasoning && fixture.reasoning) {
+      for (const piece of chunksOf(fixture.reasoning, size)) {
+        lines.push(sseLine({ choices: [{ delta: { reasoning_content: piece } }] }));
+      }
+    }
+    for (const piece of chunksOf(text, size)) {
+      lines.push(sseLine({ choices: [{ delta: { content: piece } }] }));
+    }
+    if (tools?.length && fixture.toolCalls?.length) {
+      fixture.toolCalls.forEach((call, index) => {
+        lines.push(sseLine({
+          choices: [{
+            delta: {
+              tool_calls: [{
+                index,
+                id: `mock_call_${index}`,
+                type: "function",
+                function: {
+                  name: call.name,
+                  arguments: JSON.stringify(call.arguments ?? {}, (_, v) => (typeof v === "string" ? fill(v) : v)),
+                },
+              }],
+            },
+          }],
+        }));
+      });
+    }
+    const promptTokens = messages.reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+    const completionTokens = estimateTokens(text) + estimateTokens(fixture.reasoning ?? "");
+    lines.push(sseLine({
+      choices: [{ delta: {}, finish_reason: "stop" }],
+      usage: { prompt_tokens: promptTokens, completion_tokens: completionTokens, total_tokens: promptTokens + completionTokens },
+    }));
+    lines.push("data: [DONE]\n");
+
+    const encoder = new TextEncoder();
+    let sent = 0;
+    const body = new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        if (sent > 0) await sleep(latency, signal);
+        if (signal?.aborted) {
+          controller.error(new Error("Mock stream aborted"));
+          return;
+        }
+        if (fixture.failAfterChunks !== undefined && sent >= fixture.failAfterChunks) {
+          controller.error(new Error("Mock stream dropped (scripted)"));
+          return;
+        }
+        if (sent >= lines.length) {
+          controller.close();
+          return;
+        }
+        controller.enqueue(encoder.encode(lines[sent++]));
+      },
+    });
+
+    return createSSEStream(body, createOpenAIDecoder());
+  },
+
+  async healthCheck() {
+    return true;
+  },
+};
@@ -0,0 +1,71 @@
+import { config } from "@/lib/config";
+import { createOllamaDecoder, createSSEStream } from "./sse";
+import { providerError, DEFAULT_MAX_TOKENS, DEFAULT_TEMPERATURE, type ProviderAdapter } from "./types";
+
+// Ollama (local, no internet needed) — native /api/chat, not OpenAI-compatible
+
+function isVercel(): boolean {
+  return !!process.env.VERCEL;
+}
+
+export const ollamaProvider: ProviderAdapter = {
+  name: "ollama",
+  label: "Ollama",
+  capabilities: { tools: false, reasoning: false, local: true },
+
+  isConfigured() {
+    return !isVercel() && !!config.ollamaUrl;
+  },
+
+  models() {
+    return [config.ollamaModel];
+  },
+
+  // Everything pulled into the local Ollama install
+  async listModels() {
+    const r = await fetch(`${config.ollamaUrl}/api/tags`, {
+      signal: AbortSignal.timeout(2000),
+    });
+    if (!r.ok) throw providerError("Ollama", r.status, await r.text().catch(() => ""));
+    const data = await r.json();
+    return ((data?.models ?? []) as { name?: string }[]).map((m) => m.name ?? "").filter(Boolean);
+  },
+
+  async stream(messages, { model, signal, maxTokens, temperature }) {
+    const res = await fetch(`${config.ollamaUrl}/api/chat`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        model,
+        messages,
+        stream: true,
+        options: {
+          temperature: temperature ?? DEFAULT_TEMPERATURE,
+          num_predict: maxTokens ?? DEFAULT_MAX_TOKENS,
+        },
+      }),
+      signal,
+    });
+
+    if (!res.ok) {
+      const text = await res.text().catch(() => "");
+      throw providerError("Ollama", res.status, text, res.headers);
+    }
+
+    if (!res.body) throw new Error("No Ollama response body");
+
+    return createSSEStream(res.body, createOllamaDecoder());
+  },
+
+  async healthCheck() {
+    if (isVercel()) return false;
+    try {
+      const r = await fetch(`${config.ollamaUrl}/api/tags`, {
+        signal: AbortSignal.timeout(800),
+      });
+      return r.ok;
+    } catch {
+      return false;
+    }
+  },
+};
@@ -0,0 +1,113 @@
+import { createOpenAIDecoder, createSSEStream } from "./sse";
+import {
+  providerError,
+  DEFAULT_MAX_TOKENS,
+  DEFAULT_TEMPERATURE,
+  type ProviderAdapter,
+  type ProviderCapabilities,
+} from "./types";
+
+// Factory for any endpoint that speaks POST /chat/completions with stream: true
+// (Groq, OpenRouter, LM Studio, llama.cpp server, vLLM, ...)
+
+interface OpenAICompatibleOptions {
+  name: string;
+  label: string;
+  url: () => string;
+  apiKey?: () => string;
+  // Keyless local servers are configured by URL alone
+  requiresKey?: boolean;
+  models: () => string[];
+  reasoningModels?: () => string[];
+  headers?: Record<string, string>;
+  capabilities?: Partial<ProviderCapabilities>;
+}
+
+export function createOpenAICompatibleProvider(opts: OpenAICompatibleOptions): ProviderAdapter {
+  const capabilities: ProviderCapabilities = {
+    tools: false,
+    reasoning: false,
+    local: false,
+    ...opts.capabilities,
+  };
+
+  // /chat/completions -> /models is the standard listing endpoint
+  const modelsUrl = () => opts.url().replace(/\/chat\/completions\/?$/, "/models");
+
+  const authHeaders = (): Record<string, string> => {
+    const key = opts.apiKey?.() || "";
+    return key ? { Authorization: `Bearer ${key}` } : {};
+  };
+
+  return {
+    name: opts.name,
+    label: opts.label,
+    capabilities,
+
+    isConfigured() {
+      if (!opts.url()) return false;
+      if (opts.requiresKey && !opts.apiKey?.()) return false;
+      return opts.models().length > 0;
+    },
+
+    models: opts.models,
+    reasoningModels: opts.reasoningModels,
+
+    // Local servers list whatever is loaded; cloud catalogs are too big to offer
+    listModels: capabilities.local
+      ? async () => {
+          const r = await fetch(modelsUrl(), {
+            headers: authHeaders(),
+            signal: AbortSignal.timeout(2000),
+          });
+          if (!r.ok) throw providerError(opts.label, r.status, await r.text().catch(() => ""));
+          const data = await r.json();
+          return ((data?.data ?? []) as { id?: string }[]).map((m) => m.id ?? "").filter(Boolean);
+        }
+      : undefined,
+
+    async stream(messages, { model, signal, tools, reasoning, maxTokens, temperature }) {
+      const withTools = capabilities.tools && !!tools?.length;
+      const res = await fetch(opts.url(), {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(),
+          ...opts.headers,
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          stream: true,
+          stream_options: { include_usage: true },
+          temperature: temperature ?? DEFAULT_TEMPERATURE,
+          max_tokens: maxTokens ?? DEFAULT_MAX_TOKENS,
+          ...(withTools ? { tools, tool_choice: "auto" } : {}),
+          ...(capabilities.reasoning && reasoning ? { include_reasoning: true } : {}),
+        }),
+        signal,
+      });
+
+      if (!res.ok) {
+        const text = await res.text().catch(() => "");
+        throw providerError(opts.label, res.status, text, res.headers);
+      }
+
+      if (!res.body) throw new Error(`No ${opts.label} response body`);
+
+      return createSSEStream(res.body, createOpenAIDecoder());
+    },
+
+    async healthCheck() {
+      try {
+        const r = await fetch(modelsUrl(), {
+          headers: authHeaders(),
+          signal: AbortSignal.timeout(800),
+        });
+        return r.ok;
+      } catch {
+        return false;
+      }
+    },
+  };
+}
@@ -0,0 +1,144 @@
+import { config } from "@/lib/config";
+import { createOpenAICompatibleProvider } from "./openai-compatible";
+import { ollamaProvider } from "./ollama";
+import { mockProvider } from "./mock";
+import type { ProviderAdapter } from "./types";
+
+// -- Built-in providers -----------------------------------------------------
+
+// Fallback models when primary hits rate limits (ordered by preference)
+const GROQ_FALLBACK_MODELS = [
+  "llama-3.3-70b-versatile",
+  "llama-3.1-8b-instant",
+  "meta-llama/llama-4-scout-17b-16e-instruct",
+];
+
+const OPENROUTER_FALLBACK_MODELS = [
+  "deepseek/deepseek-r1-0528:free",
+  "tngtech/deepseek-r1t2-chimera:free",
+  "openai/gpt-oss-120b:free",
+  "meta-llama/llama-3.3-70b-instruct:free",
+  "stepfun/step-3.5-flash:free",
+];
+
+// DeepSeek R1 variants stream their reasoning — used first in "thinking" mode
+const OPENROUTER_REASONING_MODELS = OPENROUTER_FALLBACK_MODELS.filter((m) => /deepseek-r1/.test(m));
+
+// Accept either a base URL (http://host:1234/v1) or the full completions URL
+function completionsUrl(base: string): string {
+  if (!base) return "";
+  const trimmed = base.replace(/\/+$/, "");
+  return /\/chat\/completions$/.test(trimmed) ? trimmed : `${trimmed}/chat/completions`;
+}
+
+function withPrimary(primary: string, fallbacks: string[]): string[] {
+  return [primary, ...fallbacks.filter((m) => m !== primary)].filter(Boolean);
+}
+
+const groqProvider = createOpenAICompatibleProvider({
+  name: "groq",
+  label: "Groq",
+  url: () => config.groqUrl,
+  apiKey: () => config.groqApiKey,
+  requiresKey: true,
+  models: () => withPrimary(config.groqModel, GROQ_FALLBACK_MODELS),
+  capabilities: { tools: true },
+});
+
+const openRouterProvider = createOpenAICompatibleProvider({
+  name: "openrouter",
+  label: "OpenRouter",
+  url: () => config.openRouterUrl,
+  apiKey: () => config.openRouterApiKey,
+  requiresKey: true,
+  models: () => withPrimary(config.openRouterModel, OPENROUTER_FALLBACK_MODELS),
+  reasoningModels: () => OPENROUTER_REASONING_MODELS,
+  headers: {
+    "HTTP-Referer": "https://senko-ai.vercel.app",
+    "X-Title": "Senko AI",
+  },
+  capabilities: { tools: true, reasoning: true },
+});
+
+const lmStudioProvider = createOpenAICompatibleProvider({
+  name: "lmstudio",
+  label: "LM Studio",
+  url: () => completionsUrl(config.lmStudioUrl),
+  models: () => [config.lmStudioModel],
+  capabilities: { local: true },
+});
+
+const llamaCppProvider = createOpenAICompatibleProvider({
+  name: "llamacpp",
+  label: "llama.cpp",
+  url: () => completionsUrl(config.llamaCppUrl),
+  models: () => [config.llamaCppModel],
+  capabilities: { local: true },
+});
+
+const vllmProvider = createOpenAICompatibleProvider({
+  name: "vllm",
+  label: "vLLM",
+  url: () => completionsUrl(config.vllmUrl),
+  apiKey: () => config.vllmApiKey,
+  models: () => [config.vllmModel].filter(Boolean),
+  capabilities: { tools: true },
+});
+
+const openAICompatProvider = createOpenAICompatibleProvider({
+  name: "openai",
+  label: "OpenAI-compatible",
+  url: () => completionsUrl(config.openAICompatUrl),
+  apiKey: () => config.openAICompatApiKey,
+  models: () => [config.openAICompatModel].filter(Boolean),
+  capabilities: { tools: true },
+});
+
+// -- Registry ---------------------------------------------------------------
+
+const providers = new Map<string, ProviderAdapter>();
+
+export function registerProvider(provider: ProviderAdapter) {
+  providers.set(provider.name, provider);
+}
+
+for (const p of [
+  groqProvider,
+  ollamaProvider,
+  openRouterProvider,
+  lmStudioProvider,
+  llamaCppProvider,
+  vllmProvider,
+  openAICompatProvider,
+  mockProvider,
+]) {
+  registerProvider(p);
+}
+
+export function getProvider(name: string): ProviderAdapter | undefined {
+  return providers.get(name);
+}
+
+export function listProviders(): ProviderAdapter[] {
+  return [...providers.values()];
+}
+
+function parseList(value: string): string[] {
+  return value.split(",").map((s) => s.trim().toLowerCase()).filter(Boolean);
+}
+
+// Providers in cascade order (AI_PROVIDERS), minus AI_PROVIDERS_DISABLED.
+// Unconfigured providers are kept out so the route never tries them.
+// MOCK_LLM=1 short-circuits to the scripted mock provider alone.
+export function getProviderCascade(): ProviderAdapter[] {
+  if (config.mockLlm) return [mockProvider];
+  const disabled = new Set(parseList(config.aiProvidersDisabled));
+  const cascade: ProviderAdapter[] = [];
+  for (const name of parseList(config.aiProviders)) {
+    const provider = providers.get(name);
+    if (!provider || disabled.has(name) || cascade.includes(provider)) continue;
+    if (!provider.isConfigured()) continue;
+    cascade.push(provider);
+  }
+  return cascade;
+}
@@ -0,0 +1,209 @@
+import { encodeEvent } from "@/lib/chat-protocol";
+import type { LineDecoder, StreamDelta } from "./types";
+
+// -- Shared SSE encoder -----------------------------------------------------
+// Every provider stream is re-encoded into the chat protocol events that
+// streamChat() in page.tsx reads, regardless of the upstream wire format.
+
+// Pipe an upstream response body through a line decoder into an SSE stream.
+// Upstream errors (error payloads or a dropped connection) become an `error`
+// event so the client can tell a failure from a normal end of stream.
+export function createSSEStream(
+  body: ReadableStream<Uint8Array>,
+  decode: LineDecoder
+): ReadableStream<Uint8Array> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const encoder = new TextEncoder();
+
+  // Returns false once an error has been emitted and the stream closed
+  const emit = (line: string, controller: ReadableStreamDefaultController<Uint8Array>): boolean => {
+    for (const delta of decode(line)) {
+      controller.enqueue(encoder.encode(encodeEvent(delta)));
+      if (delta.type === "error") {
+        controller.close();
+        reader.cancel().catch(() => {});
+        return false;
+      }
+    }
+    return true;
+  };
+
+  return new ReadableStream({
+    async pull(controller) {
+      let buffer = "";
+      while (true) {
+        let result: ReadableStreamReadResult<Uint8Array>;
+        try {
+          result = await reader.read();
+        } catch (err) {
+          const message = err instanceof Error ? err.message : "Upstream stream failed";
+          controller.enqueue(encoder.encode(encodeEvent({ type: "error", message })));
+          controller.close();
+          return;
+        }
+        const { done, value } = result;
+        if (done) {
+          for (const line of buffer.split("\n")) {
+            if (!emit(line, controller)) return;
+          }
+          controller.enqueue(encoder.encode(encodeEvent({ type: "done" })));
+          controller.close();
+          return;
+        }
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+        for (const line of lines) {
+          if (!emit(line, controller)) return;
+        }
+      }
+    },
+    cancel(reason) {
+      reader.cancel(reason).catch(() => {});
+    },
+  });
+}
+
+// -- Decoders ---------------------------------------------------------------
+
+// Length of the longest tail of `text` that could be the start of `tag`
+function partialTagLength(text: string, tag: string): number {
+  for (let n = Math.min(tag.length - 1, text.length); n > 0; n--) {
+    if (tag.startsWith(text.slice(-n))) return n;
+  }
+  return 0;
+}
+
+// Splits inline <think>...</think> blocks (DeepSeek R1 and friends) out of the
+// content stream into reasoning deltas. A tag can be cut across chunks
+// ("<thi" + "nk>"), so a chunk ending in what could be the start of one holds
+// that tail back until the next chunk, or the end of the stream, settles it.
+// Keeps per-stream state — create one per request.
+function createThinkSplitter() {
+  let insideThink = false;
+  let held = "";
+
+  return function split(content: string | undefined, end = false): StreamDelta[] {
+    const out: StreamDelta[] = [];
+    let rest = held + (content || "");
+    held = "";
+    while (rest) {
+      const tag = insideThink ? "</think>" : "<think>";
+      const type = insideThink ? "reasoning" : "content";
+      const idx = rest.indexOf(tag);
+      if (idx === -1) {
+        const keep = end ? 0 : partialTagLength(rest, tag);
+        if (rest.length > keep) out.push({ type, text: rest.slice(0, rest.length - keep) });
+        held = rest.slice(rest.length - keep);
+        break;
+      }
+      if (idx > 0) out.push({ type, text: rest.slice(0, idx) });
+      insideThink = !insideThink;
+      rest = rest.slice(idx + tag.length);
+    }
+    return out;
+  };
+}
+
+interface PendingToolCall {
+  id: string;
+  name: string;
+  arguments: string;
+}
+
+// OpenAI-compatible `data: {choices:[{delta:{content}}]}` lines.
+// Reasoning arrives either as a separate delta field (OpenRouter `reasoning`,
+// DeepSeek `reasoning_content`) or inline as <think> blocks. Tool calls have
+// their arguments stitched together across chunks before being emitted.
+export function createOpenAIDecoder(): LineDecoder {
+  const splitThink = createThinkSplitter();
+  const pendingTools = new Map<number, PendingToolCall>();
+
+  const flushTools = (): StreamDelta[] => {
+    const out: StreamDelta[] = [];
+    for (const call of pendingTools.values()) {
+      if (call.name) out.push({ type: "tool_call", ...call });
+    }
+    pendingTools.clear();
+    return out;
+  };
+
+  return function decode(line) {
+    const trimmed = line.replace(/^data: /, "").trim();
+    if (!trimmed) return [];
+    if (trimmed === "[DONE]") return [...splitThink(undefined, true), ...flushTools()];
+    try {
+      const json = JSON.parse(trimmed);
+      const choice = json.choices?.[0];
+      const delta = choice?.delta;
+
+      for (const tc of delta?.tool_calls ?? []) {
+        const index: number = tc.index ?? 0;
+        const call = pendingTools.get(index) ?? { id: "", name: "", arguments: "" };
+        if (tc.id) call.id = tc.id;
+        if (tc.function?.name) call.name += tc.function.name;
+        if (tc.function?.arguments) call.arguments += tc.function.arguments;
+        pendingTools.set(index, call);
+      }
+
+      // OpenRouter and friends report upstream failures inside the stream
+      if (json.error) {
+        const status = Number(json.error.code);
+        return [{
+          type: "error",
+          message: json.error.message || String(json.error),
+          ...(Number.isInteger(status) && status >= 400 ? { status } : {}),
+        }];
+      }
+
+      const out: StreamDelta[] = [];
+      const reasoning: string | undefined = delta?.reasoning ?? delta?.reasoning_content;
+      if (reasoning) out.push({ type: "reasoning", text: reasoning });
+      out.push(...splitThink(delta?.content, Boolean(choice?.finish_reason)));
+      // Some servers never send [DONE]; finish_reason closes the calls too
+      if (choice?.finish_reason) out.push(...flushTools());
+      // Final chunk carries usage (Groq nests it under x_groq)
+      const usage = json.usage ?? json.x_groq?.usage;
+      if (usage) {
+        out.push({
+          type: "usage",
+          promptTokens: usage.prompt_tokens ?? 0,
+          completionTokens: usage.completion_tokens ?? 0,
+          totalTokens: usage.total_tokens ?? (usage.prompt_tokens ?? 0) + (usage.completion_tokens ?? 0),
+        });
+      }
+      return out;
+    } catch {
+      return [];
+    }
+  };
+}
+
+// Ollama's newline-delimited `{message:{content, thinking}, done}` objects;
+// the final one carries prompt_eval_count/eval_count
+export function createOllamaDecoder(): LineDecoder {
+  const splitThink = createThinkSplitter();
+
+  return function decode(line) {
+    if (!line.trim()) return [];
+    try {
+      const json = JSON.parse(line);
+      if (json.error) return [{ type: "error", message: String(json.error) }];
+      const out: StreamDelta[] = [];
+      if (json.message?.thinking) {
+        out.push({ type: "reasoning", text: json.message.thinking });
+      }
+      out.push(...splitThink(json.message?.content, Boolean(json.done)));
+      if (json.done && (json.prompt_eval_count || json.eval_count)) {
+        const promptTokens = json.prompt_eval_count ?? 0;
+        const completionTokens = json.eval_count ?? 0;
+        out.push({ type: "usage", promptTokens, completionTokens, totalTokens: promptTokens + completionTokens });
+      }
+      return out;
+    } catch {
+      // skip
+    }
+    return [];
+  };
+}
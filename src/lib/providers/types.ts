@@ -0,0 +1,84 @@
+// Shared types for LLM provider adapters used by /api/chat
+
+import type { ChatStreamEvent } from "@/lib/chat-protocol";
+import { parseRetryAfter } from "./health";
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+export interface ProviderCapabilities {
+  // OpenAI-style `tools` parameter
+  tools: boolean;
+  // Emits reasoning tokens (e.g. DeepSeek R1 <think> blocks)
+  reasoning: boolean;
+  // Runs on the user's machine — probed with healthCheck() before use
+  local: boolean;
+}
+
+// OpenAI-style function tool, sent as-is in the `tools` parameter
+export interface ToolDefinition {
+  type: "function";
+  function: {
+    name: string;
+    description: string;
+    parameters: Record<string, unknown>;
+  };
+}
+
+export interface StreamOptions {
+  model: string;
+  signal?: AbortSignal;
+  // Only honoured by providers with capabilities.tools
+  tools?: ToolDefinition[];
+  // Ask reasoning-capable providers to include their reasoning tokens
+  reasoning?: boolean;
+  // Output cap; providers fall back to their own default
+  maxTokens?: number;
+  // Sampling temperature; defaults to DEFAULT_TEMPERATURE
+  temperature?: number;
+}
+
+// Generation defaults when a conversation doesn't pick its own
+export const DEFAULT_TEMPERATURE = 0.7;
+export const DEFAULT_MAX_TOKENS = 8192;
+
+// A single decoded piece of an upstream stream — the subset of the chat
+// protocol events a provider can produce. Tool calls are emitted once, after
+// their streamed arguments are complete.
+export type StreamDelta = Extract<
+  ChatStreamEvent,
+  { type: "content" | "reasoning" | "tool_call" | "usage" | "error" }
+>;
+
+// Turns one raw upstream line into zero or more deltas. Decoders are stateful
+// per stream (e.g. tracking an open <think> block), so create one per request.
+export type LineDecoder = (line: string) => StreamDelta[];
+
+export interface ProviderAdapter {
+  name: string;
+  label: string;
+  capabilities: ProviderCapabilities;
+  // Has the keys/URLs it needs to be tried at all
+  isConfigured: () => boolean;
+  // Models to try, in order of preference
+  models: () => string[];
+  // Models tried first in "thinking" agent mode (capabilities.reasoning only)
+  reasoningModels?: () => string[];
+  // Models the server actually has installed (local servers); models() is
+  // used when this is missing or the server can't be reached
+  listModels?: () => Promise<string[]>;
+  stream: (messages: ChatMessage[], options: StreamOptions) => Promise<ReadableStream<Uint8Array>>;
+  healthCheck: () => Promise<boolean>;
+}
+
+export type ProviderHttpError = Error & { status: number; body: string; retryAfterMs?: number };
+
+export function providerError(label: string, status: number, body: string, headers?: Headers): ProviderHttpError {
+  const err = new Error(`${label} ${status}: ${body}`) as ProviderHttpError;
+  err.status = status;
+  err.body = body;
+  if (headers) err.retryAfterMs = parseRetryAfter(headers);
+  return err;
+}
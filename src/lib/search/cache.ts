@@ -0,0 +1,124 @@
+import { config } from "@/lib/config";
+import type { CascadeOutcome } from "./types";
+
+// -- Retrieval cache --------------------------------------------------------
+// In-process cache in front of the search, scrape and url cascades, so the
+// same query from the search action, the sources lookup and OPEN_TAB — or a
+// regenerated reply — doesn't walk the cascade again. Entries are keyed by
+// endpoint plus the normalized query or URL; only successful answers are kept,
+// for the endpoint's TTL (SEARCH_CACHE_TTL_*; 0 turns it off). Concurrent
+// requests for a key that's being fetched wait for that fetch instead of
+// starting their own.
+
+export type CachedEndpoint = "search" | "scrape" | "url";
+
+// What the route reports in X-Cache
+export type CacheStatus = "HIT" | "MISS" | "COALESCED" | "REFRESH" | "BYPASS";
+
+interface Entry {
+  outcome: CascadeOutcome<unknown>;
+  storedAt: number;
+  expiresAt: number;
+  // Normalized URL, so a refresh can drop every entry about that page
+  subject: string;
+}
+
+// Oldest entries are dropped first once this many are stored
+const MAX_ENTRIES = 500;
+
+const entries = new Map<string, Entry>();
+const inFlight = new Map<string, Promise<CascadeOutcome<unknown>>>();
+
+function ttlFor(endpoint: CachedEndpoint): number {
+  switch (endpoint) {
+    case "search": return config.searchCacheTtlSearch;
+    case "scrape": return config.searchCacheTtlScrape;
+    case "url": return config.searchCacheTtlUrl;
+  }
+}
+
+// Case and whitespace don't change what a search engine returns
+export function normalizeQuery(query: string): string {
+  return query.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+// Fragments and tracking parameters don't change the page
+export function normalizeUrl(raw: string): string {
+  try {
+    const url = new URL(raw.trim());
+    url.hash = "";
+    for (const key of [...url.searchParams.keys()]) {
+      if (/^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|ref_src)$/i.test(key)) url.searchParams.delete(key);
+    }
+    url.searchParams.sort();
+    return url.href;
+  } catch {
+    return raw.trim();
+  }
+}
+
+// Drops every cached answer about a page (its scrape and url reads alike)
+export function invalidateUrl(url: string): number {
+  const subject = normalizeUrl(url);
+  let dropped = 0;
+  for (const [key, entry] of entries) {
+    if (entry.subject === subject) {
+      entries.delete(key);
+      dropped++;
+    }
+  }
+  return dropped;
+}
+
+export interface CachedOutcome<T> extends CascadeOutcome<T> {
+  cache: CacheStatus;
+  // Seconds since the answer was fetched, for hits
+  age: number;
+}
+
+export async function cached<T>(
+  endpoint: CachedEndpoint,
+  subject: string,
+  variant: string,
+  load: () => Promise<CascadeOutcome<T>>,
+  options: { refresh?: boolean } = {}
+): Promise<CachedOutcome<T>> {
+  const ttl = ttlFor(endpoint);
+  if (!(ttl > 0)) return { ...(await load()), cache: "BYPASS", age: 0 };
+
+  const key = `${endpoint}:${subject}${variant ? `|${variant}` : ""}`;
+  const now = Date.now();
+
+  if (!options.refresh) {
+    const entry = entries.get(key);
+    if (entry && entry.expiresAt > now) {
+      return { ...(entry.outcome as CascadeOutcome<T>), cache: "HIT", age: Math.floor((now - entry.storedAt) / 1000) };
+    }
+    if (entry) entries.delete(key);
+
+    const pending = inFlight.get(key);
+    if (pending) return { ...((await pending) as CascadeOutcome<T>), cache: "COALESCED", age: 0 };
+  }
+
+  const request = load().then((outcome) => {
+    if (outcome.status === 200) {
+      entries.delete(key);
+      entries.set(key, { outcome, storedAt: Date.now(), expiresAt: Date.now() + ttl, subject });
+      while (entries.size > MAX_ENTRIES) entries.delete(entries.keys().next().value!);
+    }
+    return outcome;
+  });
+  inFlight.set(key, request);
+  try {
+    return { ...(await request), cache: options.refresh ? "REFRESH" : "MISS", age: 0 };
+  } finally {
+    if (inFlight.get(key) === request) inFlight.delete(key);
+  }
+}
+
+// Headers a cached route answers with, next to X-Search-Via
+export function cacheHeaders(outcome: CachedOutcome<unknown>): Record<string, string> {
+  const headers: Record<string, string> = { "X-Search-Via": outcome.via, "X-Cache": outcome.cache };
+  if (outcome.cache === "HIT") headers.Age = String(outcome.age);
+  return headers;
+}
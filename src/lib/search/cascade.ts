@@ -0,0 +1,627 @@
+import { z } from "zod";
+import { config } from "@/lib/config";
+import {
+  BROWSER_HEADERS,
+  extractBingImages,
+  extractBingResults,
+  extractDDGResults,
+  extractImages,
+  extractVideos,
+  pageTitle,
+  readPage,
+  scrapePage,
+} from "./html";
+import { createSearchClient, type SearchClient } from "./client";
+import { fetchRetryable, HttpError, searchRetryPolicy, withRetry } from "./retry";
+import { assertPublicUrl } from "./guard";
+import { hasFilters, type SearchFilterName, type SearchFilters } from "./filters";
+import { searchError, type SearchEndpoint, type SearchEndpointResponse } from "./schemas";
+import type {
+  CascadeOutcome,
+  ImagesResponse,
+  ScrapeResponse,
+  ScreenshotResponse,
+  SearchAttempt,
+  SearchResponse,
+  SearchResult,
+  SourcesResponse,
+  UrlResponse,
+  VideoExtractResponse,
+} from "./types";
+
+// -- Search cascade ---------------------------------------------------------
+// Every retrieval route walks the same layers: the remote search-api
+// (SEARCH_API_URL, Puppeteer on Render) first, then the keyed providers that
+// are configured (SERPER_API_KEY, SCRAPER_API_KEY), then a plain fetch of the
+// HTML parsed in-process. A layer that throws or finds nothing hands over to
+// the next; the route reports which one answered.
+
+interface LayerAnswer<T> {
+  body: T;
+  // Passed through from the remote service; fallbacks answer 200
+  status?: number;
+}
+
+interface Layer<T> {
+  name: string;
+  // Throws or returns null when this layer has nothing
+  run: () => Promise<LayerAnswer<T> | null>;
+  // Already retries on its own; runCascade shouldn't wrap it again
+  retried?: boolean;
+}
+
+type CascadeRun<T> =
+  | { ok: true; answer: LayerAnswer<T>; via: string; attempts: SearchAttempt[] }
+  | { ok: false; error: string; attempts: SearchAttempt[] };
+
+async function runCascade<T>(label: string, layers: Layer<T>[]): Promise<CascadeRun<T>> {
+  const attempts: SearchAttempt[] = [];
+  for (const layer of layers) {
+    const start = Date.now();
+    try {
+      const answer = layer.retried ? await layer.run() : await withRetry(`${label} via ${layer.name}`, layer.run);
+      if (answer) {
+        attempts.push({ engine: layer.name, success: true, timeMs: Date.now() - start });
+        if (attempts.length > 1) console.log(`[search] ${label} answered by ${layer.name}`);
+        return { ok: true, answer, via: layer.name, attempts };
+      }
+      attempts.push({ engine: layer.name, success: false, timeMs: Date.now() - start, error: "no results" });
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      attempts.push({ engine: layer.name, success: false, timeMs: Date.now() - start, error });
+      console.warn(`[search] ${label} via ${layer.name} failed: ${error}`);
+    }
+  }
+  const error = attempts.length
+    ? attempts.map((a) => `${a.engine}: ${a.error}`).join("; ")
+    : "no search layers available";
+  return { ok: false, error, attempts };
+}
+
+function done<T>(run: Extract<CascadeRun<T>, { ok: true }>): CascadeOutcome<T> {
+  return { body: run.answer.body, status: run.answer.status ?? 200, via: run.via };
+}
+
+// -- Layers -----------------------------------------------------------------
+
+// maxDuration of the /api route that runs each endpoint's cascade; the ones
+// that don't set it are held to 30s, the shortest any of them sets
+const ROUTE_DURATION_MS: Record<SearchEndpoint, number> = {
+  search: 30_000,
+  sources: 30_000,
+  images: 30_000,
+  scrape: 30_000,
+  url: 30_000,
+  screenshot: 30_000,
+  browse: 60_000,
+  "video-extract": 60_000,
+};
+
+// The remote search-api through the typed client, which retries it itself.
+// Its 4xx answers (bad input, upstream page 404s passed through by /url) are
+// final; other failures — and answers `accept` rejects — fall through.
+// Attempts and retries share one deadline: the route's maxDuration less a
+// SEARCH_TIMEOUT left for the in-process layers behind it.
+function remoteLayer<T extends { error?: string; code?: string; status?: number }>(
+  endpoint: SearchEndpoint,
+  call: (api: SearchClient) => Promise<T>,
+  accept?: (body: T) => boolean
+): Layer<T>[] {
+  const baseUrl = config.searchApiUrl;
+  if (!baseUrl) return [];
+  return [{
+    name: "search-api",
+    retried: true,
+    run: async () => {
+      const deadline = Date.now() + ROUTE_DURATION_MS[endpoint] - config.searchTimeout;
+      const body = await call(createSearchClient({ baseUrl, retry: searchRetryPolicy(), deadline }));
+      if (body.code === "http" && body.status && body.status < 500) return { body, status: body.status };
+      if (accept ? !accept(body) : body.error) throw new Error(body.error || "no results");
+      return { body };
+    },
+  }];
+}
+
+// fetchRetryable() dressed as a browser, for third-party pages
+function fetchPage(url: string, init: Parameters<typeof fetchRetryable>[1] = {}): Promise<Response> {
+  return fetchRetryable(url, { ...init, headers: { ...BROWSER_HEADERS, ...init.headers } });
+}
+
+const MAX_REDIRECTS = 5;
+
+// fetchPage() for a URL from the model or the user. Redirects are followed
+// by hand so every hop goes through assertPublicUrl() before it's requested.
+async function fetchDirect(url: string, init: Parameters<typeof fetchRetryable>[1] = {}): Promise<{ res: Response; finalUrl: string }> {
+  let current = url;
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    await assertPublicUrl(current);
+    const res = await fetchPage(current, { ...init, redirect: "manual", allowClientErrors: true });
+    const location = res.status >= 300 && res.status < 400 ? res.headers.get("location") : null;
+    if (!location) {
+      if (!res.ok) throw new HttpError(res.status, current);
+      return { res, finalUrl: current };
+    }
+    await res.body?.cancel();
+    current = new URL(location, current).href;
+  }
+  throw new Error(`more than ${MAX_REDIRECTS} redirects`);
+}
+
+function clampResults(results: SearchResult[]): SearchResult[] {
+  const seen = new Set<string>();
+  return results
+    .filter((r) => r.url.startsWith("http") && !seen.has(r.url) && seen.add(r.url))
+    .slice(0, config.searchMaxResults);
+}
+
+// -- Search filters ---------------------------------------------------------
+// Site filters are query operators every engine understands. The rest map
+// onto each engine's own parameters; a layer lists the ones it honours, the
+// layers that honour all requested filters are tried first, and the answer
+// reports the filters its layer had to ignore.
+
+interface SearchLayer<T = SearchResult[]> extends Layer<T> {
+  supports: SearchFilterName[];
+  // Whether it can serve the pages after the first
+  paged: boolean;
+}
+
+// Filters that need engine support (sites are folded into the query)
+function engineFilters(filters: SearchFilters): SearchFilterName[] {
+  return (["time", "region", "language", "safe", "type"] as const).filter(
+    (name) => filters[name] !== undefined && !(name === "type" && filters.type === "web")
+  );
+}
+
+function withSiteOperators(query: string, filters: SearchFilters): string {
+  const sites = filters.sites ?? [];
+  const include = sites.length > 1 ? `(${sites.map((s) => `site:${s}`).join(" OR ")})` : sites.map((s) => `site:${s}`)[0];
+  const exclude = (filters.excludeSites ?? []).map((s) => `-site:${s}`);
+  return [query, include, ...exclude].filter(Boolean).join(" ");
+}
+
+function orderBySupport<L extends { supports: SearchFilterName[] }>(layers: L[], wanted: SearchFilterName[]): L[] {
+  const missing = (layer: L) => wanted.filter((f) => !layer.supports.includes(f)).length;
+  return [...layers].sort((a, b) => missing(a) - missing(b));
+}
+
+// -- Search pages -----------------------------------------------------------
+// An answer that fills its page carries a cursor for the next one: the page
+// number and the engine that served this one, tried first again so the pages
+// follow one ranking. A page is searchMaxResults long. The remote service and
+// ScraperAPI only serve the first; their cursor is resolved when the next page
+// is asked for, to the in-process engine with the same upstream ranking.
+
+const MAX_PAGES = 10;
+
+const cursorSchema = z.object({
+  page: z.number().int().min(2).max(MAX_PAGES),
+  engine: z.string(),
+  // The engine the remote service reports it used (bing-fetch, google-puppeteer...)
+  upstream: z.string().optional(),
+});
+
+type SearchCursor = z.infer<typeof cursorSchema>;
+
+function encodeCursor(cursor: SearchCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(raw: string): SearchCursor | null {
+  try {
+    const parsed = cursorSchema.safeParse(JSON.parse(Buffer.from(raw, "base64url").toString()));
+    return parsed.success ? parsed.data : null;
+  } catch {
+    return null;
+  }
+}
+
+// Paging engines that share a ranking with an engine that can't page
+const RESUME_WITH: [RegExp, string][] = [
+  [/^duckduckgo/, "duckduckgo-lite"],
+  [/^bing/, "bing"],
+  [/^google|^scraperapi$/, "serper"],
+];
+
+// The engine to try first for the cursor's page, if one can carry it on
+function resumeEngine(cursor: SearchCursor, layers: SearchLayer<unknown>[]): string | undefined {
+  if (layers.some((l) => l.paged && l.name === cursor.engine)) return cursor.engine;
+  const upstream = cursor.upstream ?? cursor.engine;
+  const name = RESUME_WITH.find(([pattern]) => pattern.test(upstream))?.[1];
+  return layers.some((l) => l.paged && l.name === name) ? name : undefined;
+}
+
+// DuckDuckGo regions are country-language pairs (us-en, jp-jp, uk-en)
+function ddgRegion(region: string, language?: string): string {
+  const country = region === "gb" ? "uk" : region;
+  const english = ["us", "uk", "au", "ca", "nz", "ie", "in", "sg", "za"].includes(country);
+  return `${country}-${language ?? (english ? "en" : country)}`;
+}
+
+// Days since the epoch, for Bing's custom date range
+function epochDays(msAgo = 0): number {
+  return Math.floor((Date.now() - msAgo) / 86_400_000);
+}
+
+// Web search without the remote service, shared by /search and /sources
+function searchLayers(query: string, filters: SearchFilters = {}, page = 1): SearchLayer[] {
+  const layers: SearchLayer[] = [];
+  const found = (results: SearchResult[]) => {
+    const kept = clampResults(results);
+    return kept.length ? { body: kept } : null;
+  };
+  const q = withSiteOperators(query, filters);
+  const offset = (page - 1) * config.searchMaxResults;
+
+  if (config.serperApiKey) {
+    const type = filters.type ?? "web";
+    layers.push({
+      name: "serper",
+      supports: ["time", "region", "language", "type"],
+      paged: true,
+      run: async () => {
+        const res = await fetchRetryable(`https://google.serper.dev/${type === "web" ? "search" : type}`, {
+          method: "POST",
+          headers: { "X-API-KEY": config.serperApiKey, "Content-Type": "application/json" },
+          body: JSON.stringify({
+            q,
+            num: config.searchMaxResults,
+            ...(page > 1 ? { page } : {}),
+            ...(filters.time ? { tbs: `qdr:${filters.time[0]}` } : {}),
+            ...(filters.region ? { gl: filters.region } : {}),
+            ...(filters.language ? { hl: filters.language } : {}),
+          }),
+        });
+        type SerperItem = { title?: string; link?: string; snippet?: string; date?: string; source?: string };
+        const data = (await res.json()) as Partial<Record<"organic" | "news" | "images" | "videos", SerperItem[]>>;
+        const items = (type === "web" ? data.organic : data[type]) ?? [];
+        return found(items.map((r) => ({
+          title: r.title ?? "",
+          url: r.link ?? "",
+          snippet: [r.source, r.date, r.snippet].filter(Boolean).join(" · "),
+        })));
+      },
+    });
+  }
+
+  // Its structured search has no paging
+  if (config.scraperApiKey && page === 1) {
+    layers.push({
+      name: "scraperapi",
+      supports: [],
+      paged: false,
+      run: async () => {
+        const params = new URLSearchParams({ api_key: config.scraperApiKey, query: q });
+        const res = await fetchRetryable(`https://api.scraperapi.com/structured/google/search?${params}`);
+        const data = (await res.json()) as { organic_results?: { title?: string; link?: string; snippet?: string }[] };
+        return found((data.organic_results ?? []).map((r) => ({ title: r.title ?? "", url: r.link ?? "", snippet: r.snippet ?? "" })));
+      },
+    });
+  }
+
+  const ddg = new URLSearchParams({ q });
+  if (filters.time) ddg.set("df", filters.time[0]);
+  if (filters.region) ddg.set("kl", ddgRegion(filters.region, filters.language));
+  if (filters.safe) ddg.set("kp", { strict: "1", moderate: "-1", off: "-2" }[filters.safe]);
+  if (offset) {
+    ddg.set("s", String(offset));
+    ddg.set("dc", String(offset + 1));
+  }
+
+  const bing = new URLSearchParams({ q });
+  if (filters.time) {
+    const range = { day: "ez1", week: "ez2", month: "ez3", year: `ez5_${epochDays(365 * 86_400_000)}_${epochDays()}` }[filters.time];
+    bing.set("filters", `ex1:"${range}"`);
+  }
+  if (filters.region) bing.set("cc", filters.region);
+  if (filters.language) bing.set("setlang", filters.language);
+  if (filters.safe) bing.set("adlt", filters.safe);
+  if (offset) bing.set("first", String(offset + 1));
+
+  layers.push(
+    {
+      name: "duckduckgo-lite",
+      supports: ["time", "region", "safe"],
+      paged: true,
+      run: async () => found(extractDDGResults(await (await fetchPage(`https://lite.duckduckgo.com/lite/?${ddg}`)).text())),
+    },
+    {
+      name: "duckduckgo-html",
+      supports: ["time", "region", "safe"],
+      paged: true,
+      run: async () => found(extractDDGResults(await (await fetchPage(`https://html.duckduckgo.com/html/?${ddg}`)).text())),
+    },
+    {
+      name: "bing",
+      supports: ["time", "region", "language", "safe"],
+      paged: true,
+      run: async () => found(extractBingResults(await (await fetchPage(`https://www.bing.com/search?${bing}`)).text())),
+    }
+  );
+  return orderBySupport(layers, engineFilters(filters));
+}
+
+interface FetchedPage {
+  html: string;
+  finalUrl: string;
+}
+
+async function readHtml(res: Response, finalUrl: string): Promise<FetchedPage> {
+  const type = res.headers.get("content-type") ?? "";
+  if (type && !/html|xml|text\/plain/i.test(type)) throw new Error(`not an HTML page (${type.split(";")[0]})`);
+  return { html: await res.text(), finalUrl };
+}
+
+// A page's HTML without the remote service: through ScraperAPI (renders and
+// rotates IPs) when keyed, then a direct fetch
+function pageLayers(url: string): Layer<FetchedPage>[] {
+  const layers: Layer<FetchedPage>[] = [];
+  if (config.scraperApiKey) {
+    layers.push({
+      name: "scraperapi",
+      run: async () => {
+        const params = new URLSearchParams({ api_key: config.scraperApiKey, url });
+        const res = await fetchPage(`https://api.scraperapi.com/?${params}`);
+        return { body: await readHtml(res, url) };
+      },
+    });
+  }
+  layers.push({
+    name: "direct",
+    run: async () => {
+      const { res, finalUrl } = await fetchDirect(url);
+      return { body: await readHtml(res, finalUrl) };
+    },
+  });
+  return layers;
+}
+
+// Page layers mapped through a parser, so remote and fallback answers can
+// share one cascade
+function parsedPageLayers<T>(url: string, parse: (page: FetchedPage) => T): Layer<T>[] {
+  return pageLayers(url).map((layer) => ({
+    name: layer.name,
+    run: async () => {
+      const answer = await layer.run();
+      return answer && { body: parse(answer.body) };
+    },
+  }));
+}
+
+// -- Endpoints --------------------------------------------------------------
+
+export async function searchWeb(
+  query: string,
+  filters: SearchFilters = {},
+  cursor?: string
+): Promise<CascadeOutcome<SearchResponse>> {
+  const start = Date.now();
+  const from = cursor ? decodeCursor(cursor) : null;
+  if (cursor && !from) {
+    return { body: searchError("search", "bad_request", "invalid cursor"), status: 400, via: "none" };
+  }
+  const page = from?.page ?? 1;
+  const wanted = engineFilters(filters);
+  // The remote service only takes a query, so it can honour site filters alone
+  const remote = page > 1
+    ? []
+    : remoteLayer("search", (api) => api.search(withSiteOperators(query, filters)), (b) => b.results.length > 0)
+      .map((layer): SearchLayer<SearchResponse> => ({ ...layer, supports: [], paged: false }));
+  const fallback = searchLayers(query, filters, page).map((layer): SearchLayer<SearchResponse> => ({
+    name: layer.name,
+    supports: layer.supports,
+    paged: layer.paged,
+    run: async () => {
+      const answer = await layer.run();
+      return answer && { body: { results: answer.body, engine: layer.name, attempts: [], totalTimeMs: 0, page } };
+    },
+  }));
+  const first = from ? resumeEngine(from, fallback) : undefined;
+  const layers = orderBySupport([...remote, ...fallback], wanted).sort(
+    (a, b) => Number(b.name === first) - Number(a.name === first)
+  );
+  const run = await runCascade("search", layers);
+  if (!run.ok) {
+    const body = searchError("search", "unavailable", run.error, {
+      engine: "none",
+      attempts: run.attempts,
+      totalTimeMs: Date.now() - start,
+    });
+    return { body, status: 502, via: "none" };
+  }
+  // The remote answer carries its own per-engine attempts; a fallback answer
+  // reports the cascade's
+  if (run.via !== "search-api") {
+    run.answer.body.attempts = run.attempts;
+    run.answer.body.totalTimeMs = Date.now() - start;
+  }
+  if (hasFilters(filters)) {
+    const supports = layers.find((l) => l.name === run.via)?.supports ?? [];
+    run.answer.body.filters = filters;
+    run.answer.body.ignoredFilters = wanted.filter((f) => !supports.includes(f));
+  }
+  run.answer.body.page = page;
+  if (run.answer.body.results.length >= config.searchMaxResults && page < MAX_PAGES) {
+    run.answer.body.cursor = encodeCursor({
+      page: page + 1,
+      engine: run.via,
+      ...(run.via === "search-api" ? { upstream: run.answer.body.engine } : {}),
+    });
+  }
+  return done(run);
+}
+
+function faviconFor(url: string): string {
+  try {
+    return `https://www.google.com/s2/favicons?domain=${new URL(url).hostname}&sz=32`;
+  } catch {
+    return "";
+  }
+}
+
+function cleanTitle(title: string): string {
+  return title.replace(/\s*[|\-–—]\s*[^|\-–—]{1,40}$/, "").trim() || title;
+}
+
+export async function searchSources(query: string): Promise<CascadeOutcome<SourcesResponse>> {
+  const remote = remoteLayer("sources", (api) => api.sources(query), (b) => b.sources.length > 0);
+  const fallback = searchLayers(query).map((layer): Layer<SourcesResponse> => ({
+    name: layer.name,
+    run: async () => {
+      const answer = await layer.run();
+      if (!answer) return null;
+      const sources = answer.body.map((r) => ({
+        url: r.url,
+        title: cleanTitle(r.title),
+        snippet: r.snippet,
+        favicon: faviconFor(r.url),
+      }));
+      return { body: { sources, query } };
+    },
+  }));
+  const run = await runCascade("sources", [...remote, ...fallback]);
+  if (!run.ok) return { body: searchError("sources", "unavailable", run.error, { query }), status: 502, via: "none" };
+  return done(run);
+}
+
+export async function searchImages(
+  query: string | null,
+  pageUrl: string | null,
+  page: number
+): Promise<CascadeOutcome<ImagesResponse>> {
+  const remote = remoteLayer("images", (api) => api.images({ q: query, url: pageUrl, page }), (b) => b.images.length > 0);
+  const label = query || pageUrl || "";
+  const answer = (images: ImagesResponse["images"]) =>
+    images.length ? { body: { images, query: label, page, hasMore: false } } : null;
+
+  const fallback: Layer<ImagesResponse>[] = [];
+  if (pageUrl) {
+    for (const layer of pageLayers(pageUrl)) {
+      fallback.push({
+        name: layer.name,
+        run: async () => {
+          const fetched = await layer.run();
+          return fetched && answer(extractImages(fetched.body.html, fetched.body.finalUrl));
+        },
+      });
+    }
+  } else if (query) {
+    if (config.serperApiKey) {
+      fallback.push({
+        name: "serper",
+        run: async () => {
+          const res = await fetchRetryable("https://google.serper.dev/images", {
+            method: "POST",
+            headers: { "X-API-KEY": config.serperApiKey, "Content-Type": "application/json" },
+            body: JSON.stringify({ q: query, num: 30, page }),
+          });
+          const data = (await res.json()) as { images?: { title?: string; imageUrl?: string; link?: string }[] };
+          return answer((data.images ?? [])
+            .filter((i) => i.imageUrl?.startsWith("http"))
+            .map((i) => ({ url: i.imageUrl!, alt: i.title ?? query, source: i.link ?? "", engine: "serper" })));
+        },
+      });
+    }
+    fallback.push({
+      name: "bing-images",
+      run: async () => {
+        const first = (page - 1) * 35 + 1;
+        const res = await fetchPage(`https://www.bing.com/images/search?q=${encodeURIComponent(query)}&first=${first}`);
+        return answer(extractBingImages(await res.text(), query));
+      },
+    });
+  }
+
+  const run = await runCascade("images", [...remote, ...fallback]);
+  if (!run.ok) {
+    return { body: searchError("images", "unavailable", run.error, { query: label, page }), status: 502, via: "none" };
+  }
+  return done(run);
+}
+
+// Fallback failures that are really the target page's (a 404, a PDF) read
+// better as that status than as 502, and a refused private address as 400
+function pageFailure<E extends "scrape" | "url" | "browse" | "video-extract">(
+  endpoint: E,
+  run: { error: string; attempts: SearchAttempt[] },
+  url: string
+): CascadeOutcome<SearchEndpointResponse<E>> {
+  const last = run.attempts.at(-1)?.error ?? "";
+  if (last.startsWith("blocked: ")) {
+    return { body: searchError(endpoint, "bad_request", last, { url }), status: 400, via: "none" };
+  }
+  const status = /^HTTP 4\d\d$/.test(last) ? Number(last.slice(5)) : 502;
+  const code = status === 502 ? "unavailable" : "http";
+  return { body: searchError(endpoint, code, run.error, { url, ...(code === "http" ? { status } : {}) }), status, via: "none" };
+}
+
+export async function scrapeUrl(url: string): Promise<CascadeOutcome<ScrapeResponse>> {
+  const run = await runCascade("scrape", [
+    ...remoteLayer("scrape", (api) => api.scrape(url), (b) => !!b.content),
+    ...parsedPageLayers(url, (page) => scrapePage(page.html, page.finalUrl)),
+  ]);
+  return run.ok ? done(run) : pageFailure("scrape", run, url);
+}
+
+// /url reads the raw HTML; the search-api's default content length is 5000
+export async function readUrl(
+  url: string,
+  options: { raw?: boolean; maxContent?: number } = {}
+): Promise<CascadeOutcome<UrlResponse>> {
+  const maxContent = Math.min(options.maxContent || 5000, 50000);
+  const run = await runCascade("url", [
+    ...remoteLayer("url", (api) => api.url(url, options)),
+    ...parsedPageLayers(url, (page) => readPage(page.html, url, page.finalUrl, maxContent)),
+  ]);
+  return run.ok ? done(run) : pageFailure("url", run, url);
+}
+
+// /browse renders the page in Puppeteer first; without it, it reads like /url
+export async function browseUrl(url: string, options: { maxContent?: number } = {}): Promise<CascadeOutcome<UrlResponse>> {
+  const maxContent = Math.min(options.maxContent || 8000, 50000);
+  const run = await runCascade("browse", [
+    ...remoteLayer("browse", (api) => api.browse(url, options)),
+    ...parsedPageLayers(url, (page) => readPage(page.html, url, page.finalUrl, maxContent)),
+  ]);
+  return run.ok ? done(run) : pageFailure("browse", run, url);
+}
+
+export async function extractPageVideos(url: string): Promise<CascadeOutcome<VideoExtractResponse>> {
+  const run = await runCascade("video-extract", [
+    ...remoteLayer("video-extract", (api) => api.videoExtract(url)),
+    ...parsedPageLayers(url, (page) => ({
+      videos: extractVideos(page.html, page.finalUrl),
+      title: pageTitle(page.html),
+      url,
+    })),
+  ]);
+  return run.ok ? done(run) : pageFailure("video-extract", run, url);
+}
+
+// Screenshots need a real browser: the remote service, or ScraperAPI's
+// rendered screenshot. There is no in-process layer.
+export async function screenshotUrl(url: string): Promise<CascadeOutcome<ScreenshotResponse>> {
+  const layers: Layer<ScreenshotResponse>[] = remoteLayer("screenshot", (api) => api.screenshot(url));
+  if (config.scraperApiKey) {
+    layers.push({
+      name: "scraperapi",
+      run: async () => {
+        const params = new URLSearchParams({ api_key: config.scraperApiKey, url, screenshot: "true", render: "true" });
+        const res = await fetchPage(`https://api.scraperapi.com/?${params}`, { timeoutMs: 25000 });
+        const shot = res.headers.get("sa-screenshot");
+        if (!shot) throw new Error("no screenshot returned");
+        const html = await res.text();
+        const { res: image } = await fetchDirect(shot);
+        const data = Buffer.from(await image.arrayBuffer()).toString("base64");
+        return { body: { screenshot: `data:image/png;base64,${data}`, title: pageTitle(html), url } };
+      },
+    });
+  }
+  if (layers.length === 0) {
+    const body = searchError("screenshot", "not_configured", "Screenshots need SEARCH_API_URL or SCRAPER_API_KEY to be configured", { url });
+    return { body, status: 503, via: "none" };
+  }
+  const run = await runCascade("screenshot", layers);
+  if (!run.ok) return { body: searchError("screenshot", "unavailable", run.error, { url }), status: 502, via: "none" };
+  return done(run);
+}
@@ -0,0 +1,141 @@
+import {
+  searchEndpointSchemas,
+  searchError,
+  type SearchEndpoint,
+  type SearchEndpointResponse,
+} from "./schemas";
+import {
+  fetchRetryable,
+  HttpError,
+  RequestTimeoutError,
+  RetryableError,
+  withRetry,
+  type Fetcher,
+  type RetryPolicy,
+} from "./retry";
+import { filtersToParams, type SearchFilters } from "./filters";
+
+// -- Search client ----------------------------------------------------------
+// Typed calls to the retrieval endpoints. The same client talks to the
+// search-api service (from the cascade, with SEARCH_API_URL as base) and to
+// the /api routes (from the UI, with "/api"). Every call resolves with a body
+// validated against its schema; on failure that's the endpoint's empty body
+// with `error`, `code` and, for HTTP errors, `status`. Only cancellation
+// (an AbortError from the caller's signal) rejects.
+
+// Puppeteer renders can be slow; these match what the routes allowed before
+const TIMEOUTS: Record<SearchEndpoint, number> = {
+  search: 30000,
+  sources: 30000,
+  scrape: 20000,
+  images: 30000,
+  url: 25000,
+  browse: 55000,
+  "video-extract": 55000,
+  screenshot: 25000,
+};
+
+const NO_RETRIES: RetryPolicy = { retries: 0, baseMs: 0, maxMs: 0 };
+
+export interface SearchClientOptions {
+  baseUrl: string;
+  fetcher?: Fetcher;
+  // Applied to network errors, 429 and 5xx; none by default
+  retry?: RetryPolicy;
+  // false leaves cancellation to the fetcher (the UI's agent loop)
+  timeouts?: boolean;
+  // Epoch ms every call, retries included, must be over by
+  deadline?: number;
+}
+
+type Params = Record<string, string | number | boolean | null | undefined>;
+
+function query(params: Params): string {
+  const qs = new URLSearchParams();
+  for (const [key, value] of Object.entries(params)) {
+    if (value !== null && value !== undefined && value !== false) qs.set(key, String(value));
+  }
+  return qs.toString();
+}
+
+async function parseBody<E extends SearchEndpoint>(endpoint: E, res: Response): Promise<SearchEndpointResponse<E>> {
+  let json: unknown;
+  try {
+    json = await res.json();
+  } catch {
+    return searchError(endpoint, "invalid_response", `/${endpoint} did not answer with JSON (HTTP ${res.status})`, {
+      status: res.status,
+    });
+  }
+  const parsed = searchEndpointSchemas[endpoint].safeParse(json);
+  if (!parsed.success) {
+    const issue = parsed.error.issues[0];
+    const where = issue?.path.length ? ` at ${issue.path.join(".")}` : "";
+    return searchError(endpoint, "invalid_response", `/${endpoint} response is malformed${where}: ${issue?.message}`, {
+      status: res.status,
+    });
+  }
+  const body = parsed.data as SearchEndpointResponse<E>;
+  if (!res.ok) {
+    body.error ??= `HTTP ${res.status}`;
+    body.code ??= "http";
+    body.status = res.status;
+  }
+  return body;
+}
+
+export function createSearchClient({ baseUrl, fetcher, retry = NO_RETRIES, timeouts = true, deadline }: SearchClientOptions) {
+  const base = baseUrl.replace(/\/+$/, "");
+
+  async function request<E extends SearchEndpoint>(endpoint: E, params: Params): Promise<SearchEndpointResponse<E>> {
+    const url = `${base}/${endpoint}?${query(params)}`;
+    try {
+      const res = await withRetry(
+        `/${endpoint}`,
+        () => fetchRetryable(url, { fetcher, timeoutMs: timeouts ? TIMEOUTS[endpoint] : null, deadline, allowClientErrors: true }),
+        { ...retry, deadline }
+      );
+      return await parseBody(endpoint, res);
+    } catch (err) {
+      if (err instanceof Error && err.name === "AbortError") throw err;
+      if (err instanceof RetryableError && err.response) return parseBody(endpoint, err.response);
+      if (err instanceof HttpError) return searchError(endpoint, "http", err.message, { status: err.status });
+      if (err instanceof RequestTimeoutError) return searchError(endpoint, "timeout", `/${endpoint} ${err.message}`);
+      const message = err instanceof Error ? err.message : String(err);
+      return searchError(endpoint, "network", `/${endpoint} request failed: ${message}`);
+    }
+  }
+
+  return {
+    // `refresh` skips the /api routes' cache and replaces what it held
+    // `cursor` is the previous page's, for the page after it
+    search: (q: string, options: { refresh?: boolean; filters?: SearchFilters; cursor?: string } = {}) =>
+      request("search", {
+        q,
+        ...filtersToParams(options.filters),
+        cursor: options.cursor,
+        refresh: options.refresh ? 1 : null,
+      }),
+    sources: (q: string) => request("sources", { q }),
+    scrape: (url: string, options: { refresh?: boolean } = {}) =>
+      request("scrape", { url, refresh: options.refresh ? 1 : null }),
+    // A query's images, or the images on a page
+    images: (params: { q?: string | null; url?: string | null; page?: number }) =>
+      request("images", { q: params.q, url: params.url, page: params.page && params.page > 1 ? params.page : null }),
+    url: (url: string, options: { raw?: boolean; maxContent?: number; refresh?: boolean } = {}) =>
+      request("url", { url, raw: options.raw ? 1 : null, maxContent: options.maxContent, refresh: options.refresh ? 1 : null }),
+    // /url rendered by Puppeteer, with the videos its network requests revealed
+    browse: (url: string, options: { maxContent?: number } = {}) =>
+      request("browse", { url, maxContent: options.maxContent }),
+    videoExtract: (url: string) => request("video-extract", { url }),
+    screenshot: (url: string) => request("screenshot", { url }),
+  };
+}
+
+export type SearchClient = ReturnType<typeof createSearchClient>;
+
+// The UI's client for the /api routes. Pass the agent loop's fetch so the
+// calls land in its trace.
+export function apiSearchClient(fetcher?: Fetcher): SearchClient {
+  return createSearchClient({ baseUrl: "/api", fetcher, timeouts: false });
+}
@@ -0,0 +1,186 @@
+import { z } from "zod";
+
+// Structured search filters: the SEARCH action's arguments, /api/search's
+// query parameters and the chips shown above a reply's sources. Safe to
+// import from either side.
+//
+// In an [ACTION:SEARCH:...] tag they follow the query after a "|", written
+// like search operators:
+//   [ACTION:SEARCH:ps5 restock | time:week site:reddit.com -site:pinterest.com]
+
+export const searchTimeRanges = ["day", "week", "month", "year"] as const;
+export const searchSafeLevels = ["off", "moderate", "strict"] as const;
+export const searchResultTypes = ["web", "news", "images", "videos"] as const;
+
+const domain = z
+  .string()
+  .trim()
+  .toLowerCase()
+  .transform((d) => d.replace(/^https?:\/\//, "").replace(/^www\./, "").replace(/\/.*$/, ""))
+  .pipe(z.string().regex(/^[a-z0-9-]+(\.[a-z0-9-]+)+$/, "must be a domain like reddit.com"));
+
+export const searchFiltersSchema = z.object({
+  time: z.enum(searchTimeRanges).optional(),
+  sites: z.array(domain).max(10).optional(),
+  excludeSites: z.array(domain).max(10).optional(),
+  // ISO 3166 country code: us, gb, jp...
+  region: z.string().trim().toLowerCase().regex(/^[a-z]{2}$/, "must be a 2-letter country code").optional(),
+  // ISO 639-1 language code: en, ja, de...
+  language: z.string().trim().toLowerCase().regex(/^[a-z]{2}$/, "must be a 2-letter language code").optional(),
+  safe: z.enum(searchSafeLevels).optional(),
+  type: z.enum(searchResultTypes).optional(),
+});
+
+export type SearchFilters = z.infer<typeof searchFiltersSchema>;
+export type SearchFilterName = keyof SearchFilters;
+
+export function hasFilters(filters: SearchFilters | undefined): boolean {
+  return !!filters && chipsFor(filters).length > 0;
+}
+
+// -- Tag value ----------------------------------------------------------------
+
+const OPERATOR = /^(-?)(time|site|region|lang|safe|type):(.+)$/i;
+
+// `query | time:week site:reddit.com` -> query + filters. Tokens that don't
+// parse are dropped and reported in `problems`.
+export function parseSearchValue(value: string): { query: string; filters: SearchFilters; problems: string[] } {
+  const bar = value.indexOf("|");
+  const query = (bar === -1 ? value : value.slice(0, bar)).trim();
+  if (bar === -1) return { query, filters: {}, problems: [] };
+
+  const raw: Record<string, unknown> = {};
+  const problems: string[] = [];
+  const list = (key: "sites" | "excludeSites", v: string) => {
+    raw[key] = [...((raw[key] as string[] | undefined) ?? []), ...v.split(",")];
+  };
+  for (const token of value.slice(bar + 1).trim().split(/\s+/).filter(Boolean)) {
+    const match = OPERATOR.exec(token);
+    if (!match) {
+      problems.push(`unknown search filter "${token}"`);
+      continue;
+    }
+    const [, minus, name, v] = match;
+    switch (name.toLowerCase()) {
+      case "site": list(minus ? "excludeSites" : "sites", v); break;
+      case "lang": raw.language = v; break;
+      default: raw[name.toLowerCase()] = v.toLowerCase();
+    }
+  }
+  const { filters, problems: invalid } = validateFilters(raw);
+  return { query, filters, problems: [...problems, ...invalid] };
+}
+
+export function formatSearchValue(query: string, filters: SearchFilters = {}): string {
+  const tokens = [
+    filters.time && `time:${filters.time}`,
+    ...(filters.sites ?? []).map((s) => `site:${s}`),
+    ...(filters.excludeSites ?? []).map((s) => `-site:${s}`),
+    filters.region && `region:${filters.region}`,
+    filters.language && `lang:${filters.language}`,
+    filters.safe && `safe:${filters.safe}`,
+    filters.type && `type:${filters.type}`,
+  ].filter(Boolean);
+  return tokens.length ? `${query} | ${tokens.join(" ")}` : query;
+}
+
+// Drops the fields that don't validate instead of rejecting all of them
+function validateFilters(raw: Record<string, unknown>): { filters: SearchFilters; problems: string[] } {
+  const parsed = searchFiltersSchema.safeParse(raw);
+  if (parsed.success) return { filters: parsed.data, problems: [] };
+  const bad = new Set(parsed.error.issues.map((i) => String(i.path[0])));
+  const problems = parsed.error.issues.map((i) => `search filter ${String(i.path[0])}: ${i.message}`);
+  const kept = Object.fromEntries(Object.entries(raw).filter(([key]) => !bad.has(key)));
+  return { filters: searchFiltersSchema.parse(kept), problems };
+}
+
+// Function-tool arguments of the search tool -> filters
+export function filtersFromToolArgs(args: Record<string, unknown>): SearchFilters {
+  const split = (v: unknown) => (typeof v === "string" && v.trim() ? v.split(",") : undefined);
+  return validateFilters({
+    time: args.time || undefined,
+    sites: split(args.site),
+    excludeSites: split(args.exclude_site),
+    region: args.region || undefined,
+    language: args.language || undefined,
+    safe: args.safe_search || undefined,
+    type: args.type || undefined,
+  }).filters;
+}
+
+// -- Query parameters ---------------------------------------------------------
+
+export function filtersToParams(filters: SearchFilters = {}): Record<string, string | undefined> {
+  return {
+    time: filters.time,
+    site: filters.sites?.join(","),
+    exclude: filters.excludeSites?.join(","),
+    region: filters.region,
+    lang: filters.language,
+    safe: filters.safe,
+    type: filters.type,
+  };
+}
+
+export function filtersFromParams(params: URLSearchParams): { filters: SearchFilters } | { error: string } {
+  const get = (key: string) => params.get(key) || undefined;
+  const parsed = searchFiltersSchema.safeParse({
+    time: get("time"),
+    sites: get("site")?.split(","),
+    excludeSites: get("exclude")?.split(","),
+    region: get("region"),
+    language: get("lang"),
+    safe: get("safe"),
+    type: get("type"),
+  });
+  if (parsed.success) return { filters: parsed.data };
+  const issue = parsed.error.issues[0];
+  return { error: `invalid ${String(issue.path[0])}: ${issue.message}` };
+}
+
+// Stable form for cache keys
+export function filtersKey(filters: SearchFilters = {}): string {
+  return formatSearchValue("", filters).replace(/^ \| /, "");
+}
+
+// -- Chips --------------------------------------------------------------------
+
+export interface FilterChip {
+  // Passed back to withoutChip() when the chip is removed
+  id: string;
+  filter: SearchFilterName;
+  label: string;
+}
+
+const TIME_LABELS: Record<(typeof searchTimeRanges)[number], string> = {
+  day: "Past day",
+  week: "Past week",
+  month: "Past month",
+  year: "Past year",
+};
+
+export function chipsFor(filters: SearchFilters): FilterChip[] {
+  const chips: FilterChip[] = [];
+  if (filters.time) chips.push({ id: "time", filter: "time", label: TIME_LABELS[filters.time] });
+  for (const site of filters.sites ?? []) chips.push({ id: `site:${site}`, filter: "sites", label: `Only ${site}` });
+  for (const site of filters.excludeSites ?? []) chips.push({ id: `-site:${site}`, filter: "excludeSites", label: `Not ${site}` });
+  if (filters.region) chips.push({ id: "region", filter: "region", label: `Region: ${filters.region.toUpperCase()}` });
+  if (filters.language) chips.push({ id: "language", filter: "language", label: `Language: ${filters.language}` });
+  if (filters.safe) chips.push({ id: "safe", filter: "safe", label: `Safe search: ${filters.safe}` });
+  if (filters.type && filters.type !== "web") chips.push({ id: "type", filter: "type", label: filters.type[0].toUpperCase() + filters.type.slice(1) });
+  return chips;
+}
+
+export function withoutChip(filters: SearchFilters, id: string): SearchFilters {
+  const next = { ...filters };
+  if (id.startsWith("site:")) {
+    next.sites = filters.sites?.filter((s) => s !== id.slice(5));
+    if (!next.sites?.length) delete next.sites;
+  } else if (id.startsWith("-site:")) {
+    next.excludeSites = filters.excludeSites?.filter((s) => s !== id.slice(6));
+    if (!next.excludeSites?.length) delete next.excludeSites;
+  } else {
+    delete next[id as SearchFilterName];
+  }
+  return next;
+}
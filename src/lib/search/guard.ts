@@ -0,0 +1,74 @@
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+
+// -- Outbound URL guard -----------------------------------------------------
+// The in-process fallbacks fetch URLs that come from the model or the user,
+// from inside the Next server. Each hop is checked first: only http(s) to
+// hosts whose every address is public, so a page can't point the server at
+// loopback (a local Ollama), the LAN or a cloud metadata endpoint.
+
+export class BlockedUrlError extends Error {
+  constructor(readonly url: string, reason: string) {
+    super(`blocked: ${reason}`);
+    this.name = "BlockedUrlError";
+  }
+}
+
+const privateRanges = new BlockList();
+for (const [net, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  privateRanges.addSubnet(net, prefix, "ipv4");
+}
+// IPv4-mapped addresses (::ffff:127.0.0.1) are checked against the IPv4 rules
+for (const [net, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  // NAT64 addresses can reach any IPv4 host
+  ["64:ff9b::", 96],
+  ["2001:db8::", 32],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  privateRanges.addSubnet(net, prefix, "ipv6");
+}
+
+function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+  return !privateRanges.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+// Throws BlockedUrlError unless `raw` is http(s) to a public host. Names are
+// resolved, and one private address among them is enough to refuse.
+export async function assertPublicUrl(raw: string): Promise<void> {
+  let url: URL;
+  try {
+    url = new URL(raw);
+  } catch {
+    throw new BlockedUrlError(raw, "not a valid URL");
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new BlockedUrlError(raw, `${url.protocol} URLs are not fetched`);
+  }
+  const host = url.hostname.replace(/^\[|\]$/g, "");
+  const addresses = isIP(host) ? [host] : (await lookup(host, { all: true, verbatim: true })).map((a) => a.address);
+  const blocked = addresses.find((address) => !isPublicAddress(address));
+  if (blocked || addresses.length === 0) {
+    throw new BlockedUrlError(raw, `${host} is not a public address${blocked && blocked !== host ? ` (${blocked})` : ""}`);
+  }
+}
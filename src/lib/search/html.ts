@@ -0,0 +1,313 @@
+// HTML parsing for the in-process search fallback — TypeScript ports of the
+// extractors in search-api/server.js, so a fallback answer has the same shape
+// as the remote one.
+
+import type { ImageResult, PageHeading, PageLink, ScrapeResponse, SearchResult, UrlResponse, VideoSource } from "./types";
+
+export const BROWSER_HEADERS = {
+  "User-Agent":
+    "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/125.0.0.0 Safari/537.36",
+  Accept: "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,*/*;q=0.8",
+  "Accept-Language": "en-US,en;q=0.9",
+};
+
+const MAX_RESULTS = 25;
+
+export function decodeEntities(text: string): string {
+  return text
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&nbsp;/g, " ");
+}
+
+function stripTags(html: string): string {
+  return decodeEntities(html.replace(/<[^>]*>/g, "")).trim();
+}
+
+export function resolveUrl(src: string, baseUrl: string): string {
+  try {
+    return new URL(src.startsWith("//") ? `https:${src}` : src, baseUrl).href;
+  } catch {
+    return "";
+  }
+}
+
+// -- Search engine result pages ---------------------------------------------
+
+function decodeDDGUrl(raw: string): string {
+  try {
+    const decoded = decodeURIComponent(raw.replace(/&amp;/g, "&"));
+    if (decoded.startsWith("/")) {
+      return new URL(`https://duckduckgo.com${decoded}`).searchParams.get("uddg") || raw;
+    }
+    if (decoded.startsWith("http")) return decoded;
+  } catch { /* keep raw */ }
+  return raw;
+}
+
+export function extractDDGResults(html: string): SearchResult[] {
+  const results: SearchResult[] = [];
+  const combined =
+    /<a[^>]*class="result__a"[^>]*href="([^"]*)"[^>]*>(.*?)<\/a>[\s\S]*?<a[^>]*class="result__snippet"[^>]*>(.*?)<\/a>/gi;
+  let m: RegExpExecArray | null;
+  while ((m = combined.exec(html)) !== null && results.length < MAX_RESULTS) {
+    const url = decodeDDGUrl(m[1]);
+    const title = stripTags(m[2]);
+    if (title && url.startsWith("http")) results.push({ title, url, snippet: stripTags(m[3]) });
+  }
+  if (results.length === 0) {
+    const links = /<a[^>]*class="result__a"[^>]*href="([^"]*)"[^>]*>(.*?)<\/a>/gi;
+    while ((m = links.exec(html)) !== null && results.length < MAX_RESULTS) {
+      const url = decodeDDGUrl(m[1]);
+      const title = stripTags(m[2]);
+      if (title && url.startsWith("http")) results.push({ title, url, snippet: "" });
+    }
+  }
+  return results;
+}
+
+export function extractBingResults(html: string): SearchResult[] {
+  const results: SearchResult[] = [];
+  const algo =
+    /<li class="b_algo"[^>]*>[\s\S]*?<a[^>]*href="(https?:\/\/[^"]+)"[^>]*>([\s\S]*?)<\/a>(?:[\s\S]*?<p[^>]*>([\s\S]*?)<\/p>)?/gi;
+  let m: RegExpExecArray | null;
+  while ((m = algo.exec(html)) !== null && results.length < MAX_RESULTS) {
+    const title = stripTags(m[2]);
+    if (title) results.push({ title, url: decodeEntities(m[1]), snippet: m[3] ? stripTags(m[3]) : "" });
+  }
+  return results;
+}
+
+// Bing image results carry the full-size URL (murl) and the page (purl) in JSON attributes
+export function extractBingImages(html: string, query: string): ImageResult[] {
+  const images: ImageResult[] = [];
+  const rx = /murl&quot;:&quot;(.*?)&quot;[\s\S]*?purl&quot;:&quot;(.*?)&quot;|purl&quot;:&quot;(.*?)&quot;[\s\S]*?murl&quot;:&quot;(.*?)&quot;/g;
+  let m: RegExpExecArray | null;
+  while ((m = rx.exec(html)) !== null && images.length < 50) {
+    const url = decodeEntities(m[1] ?? m[4]);
+    const source = decodeEntities(m[2] ?? m[3]);
+    if (isValidImageUrl(url) && !images.some((i) => i.url === url)) {
+      images.push({ url, alt: query, source, engine: "bing" });
+    }
+  }
+  return images;
+}
+
+// -- Pages ------------------------------------------------------------------
+
+export function extractText(html: string): string {
+  return decodeEntities(
+    html
+      .replace(/<script[\s\S]*?<\/script>/gi, "")
+      .replace(/<style[\s\S]*?<\/style>/gi, "")
+      .replace(/<noscript[\s\S]*?<\/noscript>/gi, "")
+      .replace(/<nav[\s\S]*?<\/nav>/gi, "")
+      .replace(/<footer[\s\S]*?<\/footer>/gi, "")
+      .replace(/<\/?(p|div|br|h[1-6]|li|tr|blockquote|section|article)[^>]*>/gi, "\n")
+      .replace(/<[^>]+>/g, " ")
+  )
+    .replace(/[ \t]+/g, " ")
+    .replace(/\n\s*\n/g, "\n")
+    .trim();
+}
+
+function matchMeta(html: string, pattern: RegExp): string {
+  return html.match(pattern)?.[1]?.replace(/\s+/g, " ").trim() ?? "";
+}
+
+export function pageTitle(html: string): string {
+  return decodeEntities(matchMeta(html, /<title[^>]*>([\s\S]*?)<\/title>/i));
+}
+
+function pageDescription(html: string): string {
+  return decodeEntities(matchMeta(html, /<meta[^>]*name=["']description["'][^>]*content=["']([^"']*?)["']/i));
+}
+
+function ogImage(html: string): string {
+  return matchMeta(html, /<meta[^>]*property=["']og:image["'][^>]*content=["']([^"']+)["']/i);
+}
+
+function isValidImageUrl(src: string): boolean {
+  if (!src.startsWith("http")) return false;
+  return !/data:|\.svg|favicon|pixel|tracking|1x1|spacer|blank\.|placeholder|gstatic\.com|encrypted-tbn/i.test(src);
+}
+
+// Same fields as search-api's /scrape: the main text, a few images and videos
+export function scrapePage(html: string, url: string): ScrapeResponse {
+  const cleaned = html
+    .replace(/<(script|style|nav|footer|header|aside|svg|form|iframe|noscript)[\s\S]*?<\/\1>/gi, "");
+  const main =
+    cleaned.match(/<main[\s\S]*?<\/main>/i) ||
+    cleaned.match(/<article[\s\S]*?<\/article>/i);
+  const text = extractText(main ? main[0] : cleaned).replace(/\s+/g, " ");
+
+  const images: string[] = [];
+  const og = ogImage(html);
+  if (og) images.push(resolveUrl(og, url));
+  for (const img of extractImages(html, url)) {
+    if (images.length >= 8) break;
+    if (!images.includes(img.url) && !/logo|icon/i.test(img.url)) images.push(img.url);
+  }
+
+  return {
+    title: pageTitle(html),
+    description: pageDescription(html),
+    content: text.length > 5000 ? `${text.slice(0, 5000)}...` : text,
+    images: images.filter(Boolean),
+    videos: extractVideos(html, url),
+    url,
+    length: text.length,
+  };
+}
+
+export function extractLinks(html: string, baseUrl: string): PageLink[] {
+  const links: PageLink[] = [];
+  const seen = new Set<string>();
+  const rx = /<a\b[^>]*?href=["']([^"'#]+)["'][^>]*?>([\s\S]*?)<\/a>/gi;
+  let m: RegExpExecArray | null;
+  while ((m = rx.exec(html)) !== null && links.length < 50) {
+    const href = resolveUrl(decodeEntities(m[1].trim()), baseUrl);
+    if (!href || seen.has(href) || href.startsWith("javascript:")) continue;
+    seen.add(href);
+    links.push({ url: href, text: stripTags(m[2]).replace(/\s+/g, " ") || href });
+  }
+  return links;
+}
+
+export function extractImages(html: string, baseUrl: string): ImageResult[] {
+  const images: ImageResult[] = [];
+  const add = (src: string, alt = "") => {
+    const url = resolveUrl(decodeEntities(src), baseUrl);
+    if (url && isValidImageUrl(url) && !images.some((i) => i.url === url)) images.push({ url, alt, source: baseUrl });
+  };
+  const og = ogImage(html);
+  if (og) add(og);
+
+  const imgTag = /<img[^>]+src=["']([^"']+)["'][^>]*/gi;
+  let m: RegExpExecArray | null;
+  while ((m = imgTag.exec(html)) !== null && images.length < 40) {
+    const tag = m[0];
+    const w = tag.match(/width=["']?(\d+)/i);
+    const h = tag.match(/height=["']?(\d+)/i);
+    if ((w && parseInt(w[1]) < 80) || (h && parseInt(h[1]) < 80)) continue;
+    add(m[1], decodeEntities(tag.match(/alt=["']([^"']*?)["']/i)?.[1] ?? ""));
+  }
+
+  const lazy = /(?:data-src|data-original|data-lazy-src|data-full|data-image)=["'](https?:\/\/[^"']+)["']/gi;
+  while ((m = lazy.exec(html)) !== null && images.length < 40) add(m[1]);
+  return images;
+}
+
+function extractHeadings(html: string): PageHeading[] {
+  const headings: PageHeading[] = [];
+  const rx = /<h([1-6])[^>]*>([\s\S]*?)<\/h\1>/gi;
+  let m: RegExpExecArray | null;
+  while ((m = rx.exec(html)) !== null && headings.length < 20) {
+    const text = stripTags(m[2]).replace(/\s+/g, " ");
+    if (text) headings.push({ level: parseInt(m[1]), text });
+  }
+  return headings;
+}
+
+// Same fields as search-api's /url
+export function readPage(html: string, url: string, finalUrl: string, maxContent: number): UrlResponse {
+  const favicon = matchMeta(html, /<link[^>]*rel=["'](?:shortcut )?icon["'][^>]*href=["']([^"']+)["']/i);
+  let origin = "";
+  try { origin = new URL(finalUrl).origin; } catch { /* relative links stay unresolved */ }
+  const og = ogImage(html);
+  return {
+    url,
+    finalUrl,
+    meta: {
+      title: pageTitle(html),
+      description: pageDescription(html),
+      ogImage: og ? resolveUrl(og, finalUrl) : "",
+      favicon: favicon ? resolveUrl(favicon, finalUrl) : `${origin}/favicon.ico`,
+    },
+    content: extractText(html).slice(0, maxContent),
+    links: extractLinks(html, finalUrl),
+    images: extractImages(html, finalUrl).slice(0, 20).map(({ url: src, alt }) => ({ url: src, alt })),
+    videos: extractVideos(html, finalUrl),
+    headings: extractHeadings(html),
+  };
+}
+
+// -- Videos -----------------------------------------------------------------
+
+const VIDEO_TYPES: [RegExp, string][] = [
+  [/\.mp4/i, "video/mp4"],
+  [/\.webm/i, "video/webm"],
+  [/\.m3u8/i, "application/x-mpegURL"],
+  [/\.mpd/i, "application/dash+xml"],
+  [/\.ogg/i, "video/ogg"],
+  [/\.mov/i, "video/quicktime"],
+];
+
+const EMBED_PLAYERS =
+  /youtube\.com\/embed|youtu\.be|player\.vimeo|dailymotion\.com\/embed|streamable\.com|rumble\.com\/embed|bitchute\.com\/embed|\/embed\//i;
+
+// Static part of search-api's video detection: meta tags, <video>/<source>,
+// JSON-LD VideoObjects, URLs in inline scripts and known embed players.
+// Players that only load their source at runtime need the real browser.
+export function extractVideos(html: string, baseUrl: string): VideoSource[] {
+  const videos: VideoSource[] = [];
+  const seen = new Set<string>();
+  const add = (raw: string | undefined, extra: Partial<VideoSource> = {}) => {
+    if (!raw) return;
+    const decoded = raw.replace(/\\u002F/gi, "/").replace(/\\u0026/gi, "&").replace(/\\\//g, "/").replace(/&amp;/g, "&");
+    const url = resolveUrl(decoded, baseUrl);
+    if (!url || seen.has(url) || /\b(ad[sv]?|tracker|pixel|beacon|analytics|banner)\b/i.test(url)) return;
+    seen.add(url);
+    const quality = extra.quality || url.match(/(\d{3,4})p/)?.[1]?.concat("p");
+    const type = extra.type || VIDEO_TYPES.find(([rx]) => rx.test(url))?.[1];
+    videos.push({ url, type: type || undefined, quality: quality || undefined, poster: extra.poster });
+  };
+
+  let m: RegExpExecArray | null;
+  const ogVideo = /<meta[^>]*property=["']og:video(?::(?:secure_)?url)?["'][^>]*content=["']([^"']+)["']/gi;
+  while ((m = ogVideo.exec(html)) !== null) add(m[1]);
+
+  const videoTag = /<video[^>]*>([\s\S]*?)<\/video>|<video[^>]*\/>/gi;
+  while ((m = videoTag.exec(html)) !== null) {
+    const tag = m[0];
+    const posterSrc = tag.match(/poster=["']([^"']+)["']/i)?.[1];
+    const poster = posterSrc ? resolveUrl(posterSrc, baseUrl) : undefined;
+    add(tag.match(/\bsrc=["']([^"']+)["']/i)?.[1], { poster });
+    const inner = /<source[^>]*\bsrc=["']([^"']+)["'][^>]*/gi;
+    let s: RegExpExecArray | null;
+    while ((s = inner.exec(tag)) !== null) add(s[1], { poster, type: s[0].match(/type=["']([^"']+)["']/i)?.[1] });
+  }
+
+  const jsonLd = /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+  const visit = (obj: unknown): void => {
+    if (!obj || typeof obj !== "object") return;
+    if (Array.isArray(obj)) return obj.forEach(visit);
+    const o = obj as Record<string, unknown>;
+    if (o["@type"] === "VideoObject") {
+      for (const key of ["contentUrl", "embedUrl"]) if (typeof o[key] === "string") add(o[key] as string);
+    }
+    Object.values(o).forEach(visit);
+  };
+  while ((m = jsonLd.exec(html)) !== null) {
+    try { visit(JSON.parse(m[1])); } catch { /* malformed JSON-LD */ }
+  }
+
+  const inScript = /["']([^"'\s]+\.(?:mp4|webm|m3u8|mpd)(?:\?[^"'\s]*)?)["']/gi;
+  while ((m = inScript.exec(html)) !== null && videos.length < 20) add(m[1]);
+
+  const iframe = /<iframe[^>]*\bsrc=["']([^"']+)["'][^>]*/gi;
+  while ((m = iframe.exec(html)) !== null && videos.length < 20) {
+    const src = resolveUrl(m[1], baseUrl);
+    if (src && EMBED_PLAYERS.test(src) && !seen.has(src)) {
+      seen.add(src);
+      videos.push({ url: src, type: "iframe" });
+    }
+  }
+
+  const rank = (v: VideoSource) => ({ "video/mp4": 0, "video/webm": 1, "application/x-mpegURL": 2, iframe: 10 } as Record<string, number>)[v.type ?? ""] ?? 5;
+  return videos.sort((a, b) => rank(a) - rank(b) || (parseInt(b.quality ?? "") || 0) - (parseInt(a.quality ?? "") || 0));
+}
+
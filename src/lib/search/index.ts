@@ -0,0 +1,26 @@
+export * from "./types";
+export * from "./schemas";
+export * from "./filters";
+export { createSearchClient, apiSearchClient, type SearchClient, type SearchClientOptions } from "./client";
+export {
+  searchWeb,
+  searchSources,
+  searchImages,
+  scrapeUrl,
+  readUrl,
+  browseUrl,
+  extractPageVideos,
+  screenshotUrl,
+} from "./cascade";
+export {
+  cached,
+  cacheHeaders,
+  invalidateUrl,
+  normalizeQuery,
+  normalizeUrl,
+  type CachedEndpoint,
+  type CachedOutcome,
+  type CacheStatus,
+} from "./cache";
+export { assertPublicUrl, BlockedUrlError } from "./guard";
+export { withRetry, fetchRetryable, searchRetryPolicy, RetryableError, HttpError, RequestTimeoutError, type RetryPolicy, type Fetcher } from "./retry";
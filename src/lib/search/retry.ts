@@ -0,0 +1,117 @@
+import { config } from "@/lib/config";
+
+// -- Retries ----------------------------------------------------------------
+// A layer is retried (SEARCH_MAX_RETRIES times, exponential backoff from
+// SEARCH_BACKOFF_BASE capped at SEARCH_BACKOFF_MAX) only for failures that
+// may clear up by themselves: network errors, 429 and 5xx. Anything else —
+// a timeout, a 4xx, an unparseable page — moves the cascade to the next layer.
+// With a deadline, no retry starts that couldn't finish before it.
+
+export class RetryableError extends Error {
+  readonly retryAfterMs: number | null;
+  // The 429/5xx answer, when there was one — its body may explain the failure
+  readonly response: Response | null;
+
+  constructor(message: string, options: { retryAfterMs?: number | null; response?: Response } = {}) {
+    super(message);
+    this.name = "RetryableError";
+    this.retryAfterMs = options.retryAfterMs ?? null;
+    this.response = options.response ?? null;
+  }
+}
+
+export class HttpError extends Error {
+  constructor(readonly status: number, readonly url: string) {
+    super(`HTTP ${status}`);
+    this.name = "HttpError";
+  }
+}
+
+export class RequestTimeoutError extends Error {
+  constructor(readonly timeoutMs: number) {
+    super(`timed out after ${timeoutMs}ms`);
+    this.name = "RequestTimeoutError";
+  }
+}
+
+export interface RetryPolicy {
+  retries: number;
+  baseMs: number;
+  maxMs: number;
+  // Epoch ms by which every attempt, waits included, must be over
+  deadline?: number;
+}
+
+// SEARCH_MAX_RETRIES / SEARCH_BACKOFF_BASE / SEARCH_BACKOFF_MAX
+export function searchRetryPolicy(): RetryPolicy {
+  return { retries: config.searchMaxRetries, baseMs: config.searchBackoffBase, maxMs: config.searchBackoffMax };
+}
+
+function backoffMs(attempt: number, policy: RetryPolicy): number {
+  const base = policy.baseMs * 2 ** attempt;
+  return Math.min(base, policy.maxMs) * (0.75 + Math.random() * 0.5);
+}
+
+// Shortest attempt worth starting against a deadline
+const MIN_ATTEMPT_MS = 1000;
+
+export async function withRetry<T>(label: string, fn: () => Promise<T>, policy = searchRetryPolicy()): Promise<T> {
+  const retries = Math.max(0, policy.retries);
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await fn();
+    } catch (err) {
+      if (!(err instanceof RetryableError) || attempt >= retries) throw err;
+      const wait = Math.min(err.retryAfterMs ?? backoffMs(attempt, policy), policy.maxMs);
+      // Not worth waiting for an attempt that would have no time left
+      if (policy.deadline !== undefined && Date.now() + wait + MIN_ATTEMPT_MS > policy.deadline) throw err;
+      console.log(`[search] ${label} failed (${err.message}), retry ${attempt + 1}/${retries} in ${Math.round(wait)}ms`);
+      await new Promise((resolve) => setTimeout(resolve, wait));
+    }
+  }
+}
+
+function retryAfter(res: Response): number | null {
+  const header = res.headers.get("retry-after");
+  const seconds = header ? parseInt(header) : NaN;
+  return Number.isFinite(seconds) ? seconds * 1000 : null;
+}
+
+export type Fetcher = (url: string, init?: RequestInit) => Promise<Response>;
+
+interface RetryableInit extends RequestInit {
+  // null: no timeout of its own (the fetcher or caller's signal decides)
+  timeoutMs?: number | null;
+  // Epoch ms the request must be over by; shortens timeoutMs to fit
+  deadline?: number;
+  // Defaults to fetch(); the UI passes its agent loop's so calls are traced
+  fetcher?: Fetcher;
+  // Hand 4xx responses back instead of throwing — for JSON APIs whose error
+  // bodies are worth passing on
+  allowClientErrors?: boolean;
+}
+
+// fetch() that classifies its failures for withRetry. Non-2xx answers that
+// aren't worth retrying throw HttpError so callers can pass the status on.
+// The caller's signal still cancels the request when there is a timeout too.
+export async function fetchRetryable(url: string, init: RetryableInit = {}): Promise<Response> {
+  const { timeoutMs: ownTimeout = config.searchTimeout, deadline, fetcher = fetch, allowClientErrors, ...rest } = init;
+  const left = deadline === undefined ? null : deadline - Date.now();
+  const timeoutMs = left === null ? ownTimeout : Math.min(ownTimeout ?? left, left);
+  if (timeoutMs !== null && timeoutMs <= 0) throw new RequestTimeoutError(0);
+  const timeout = timeoutMs ? AbortSignal.timeout(timeoutMs) : null;
+  const signal = timeout && rest.signal ? AbortSignal.any([rest.signal, timeout]) : timeout ?? rest.signal;
+  let res: Response;
+  try {
+    res = await fetcher(url, { ...rest, signal });
+  } catch (err) {
+    if (err instanceof Error && err.name === "TimeoutError") throw new RequestTimeoutError(timeoutMs ?? 0);
+    // Cancelled by the caller: not worth retrying
+    if (err instanceof Error && err.name === "AbortError") throw err;
+    throw new RetryableError(err instanceof Error ? err.message : "network error");
+  }
+  if (res.ok) return res;
+  if (res.status === 429 || res.status >= 500) throw new RetryableError(`HTTP ${res.status}`, { retryAfterMs: retryAfter(res), response: res });
+  if (allowClientErrors) return res;
+  throw new HttpError(res.status, url);
+}
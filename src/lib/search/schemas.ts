@@ -0,0 +1,170 @@
+import { z } from "zod";
+import { searchFiltersSchema } from "./filters";
+
+// Response schemas of the retrieval endpoints — the search-api service and
+// the /api routes that front it answer with the same bodies. Every field has
+// a default, so an error body like `{ error }` still parses into a complete
+// (empty) response and callers can read it without checking first.
+// Safe to import from either side.
+
+// What went wrong, when `error` is set
+export const searchErrorCodes = [
+  // Missing or malformed parameters
+  "bad_request",
+  // Neither SEARCH_API_URL nor a fallback that could serve it is available
+  "not_configured",
+  "timeout",
+  "network",
+  // Non-2xx answer; `status` has it
+  "http",
+  // The body wasn't JSON or didn't match its schema
+  "invalid_response",
+  // Every layer of the cascade failed
+  "unavailable",
+] as const;
+
+export type SearchErrorCode = (typeof searchErrorCodes)[number];
+
+const errorFields = {
+  error: z.string().optional(),
+  code: z.enum(searchErrorCodes).optional(),
+  status: z.number().optional(),
+};
+
+export const searchErrorSchema = z.object({ ...errorFields, error: z.string() });
+
+export const searchResultSchema = z.object({
+  title: z.string().default(""),
+  url: z.string(),
+  snippet: z.string().default(""),
+});
+
+export const searchAttemptSchema = z.object({
+  engine: z.string(),
+  success: z.boolean(),
+  timeMs: z.number().default(0),
+  error: z.string().optional(),
+});
+
+export const searchResponseSchema = z.object({
+  results: z.array(searchResultSchema).default([]),
+  engine: z.string().default(""),
+  attempts: z.array(searchAttemptSchema).default([]),
+  totalTimeMs: z.number().default(0),
+  // The filters asked for, and those the answering engine couldn't apply
+  filters: searchFiltersSchema.optional(),
+  ignoredFilters: z.array(z.string()).optional(),
+  // 1-based; `cursor` asks /search for the next page and is absent on the last
+  page: z.number().default(1),
+  cursor: z.string().optional(),
+  ...errorFields,
+});
+
+export const sourceResultSchema = z.object({
+  url: z.string(),
+  title: z.string().default(""),
+  snippet: z.string().default(""),
+  favicon: z.string().default(""),
+});
+
+export const sourcesResponseSchema = z.object({
+  sources: z.array(sourceResultSchema).default([]),
+  query: z.string().default(""),
+  ...errorFields,
+});
+
+export const imageResultSchema = z.object({
+  url: z.string(),
+  alt: z.string().default(""),
+  source: z.string().default(""),
+  engine: z.string().optional(),
+});
+
+export const imagesResponseSchema = z.object({
+  images: z.array(imageResultSchema).default([]),
+  query: z.string().default(""),
+  page: z.number().default(1),
+  hasMore: z.boolean().default(false),
+  ...errorFields,
+});
+
+export const videoSourceSchema = z.object({
+  url: z.string(),
+  type: z.string().optional(),
+  quality: z.string().optional(),
+  poster: z.string().optional(),
+  // Where /browse found it (dom, network, ...)
+  source: z.string().optional(),
+});
+
+export const scrapeResponseSchema = z.object({
+  title: z.string().default(""),
+  description: z.string().default(""),
+  content: z.string().default(""),
+  images: z.array(z.string()).default([]),
+  videos: z.array(videoSourceSchema).default([]),
+  url: z.string().default(""),
+  length: z.number().default(0),
+  ...errorFields,
+});
+
+export const pageLinkSchema = z.object({ url: z.string(), text: z.string().default("") });
+export const pageHeadingSchema = z.object({ level: z.number(), text: z.string() });
+
+// /url and /browse (the same page, rendered by Puppeteer)
+export const urlResponseSchema = z.object({
+  url: z.string().default(""),
+  finalUrl: z.string().default(""),
+  meta: z
+    .object({
+      title: z.string().default(""),
+      description: z.string().default(""),
+      ogImage: z.string().default(""),
+      favicon: z.string().default(""),
+    })
+    .default({ title: "", description: "", ogImage: "", favicon: "" }),
+  content: z.string().default(""),
+  links: z.array(pageLinkSchema).default([]),
+  images: z.array(z.object({ url: z.string(), alt: z.string().default("") })).default([]),
+  videos: z.array(videoSourceSchema).default([]),
+  headings: z.array(pageHeadingSchema).default([]),
+  ...errorFields,
+});
+
+export const videoExtractResponseSchema = z.object({
+  videos: z.array(videoSourceSchema).default([]),
+  title: z.string().default(""),
+  url: z.string().default(""),
+  ...errorFields,
+});
+
+export const screenshotResponseSchema = z.object({
+  screenshot: z.string().default(""),
+  title: z.string().default(""),
+  url: z.string().default(""),
+  ...errorFields,
+});
+
+export const searchEndpointSchemas = {
+  search: searchResponseSchema,
+  sources: sourcesResponseSchema,
+  scrape: scrapeResponseSchema,
+  images: imagesResponseSchema,
+  url: urlResponseSchema,
+  browse: urlResponseSchema,
+  "video-extract": videoExtractResponseSchema,
+  screenshot: screenshotResponseSchema,
+};
+
+export type SearchEndpoint = keyof typeof searchEndpointSchemas;
+export type SearchEndpointResponse<E extends SearchEndpoint> = z.infer<(typeof searchEndpointSchemas)[E]>;
+
+// The empty response of `endpoint` carrying an error
+export function searchError<E extends SearchEndpoint>(
+  endpoint: E,
+  code: SearchErrorCode,
+  error: string,
+  extra: Record<string, unknown> = {}
+): SearchEndpointResponse<E> {
+  return searchEndpointSchemas[endpoint].parse({ ...extra, error, code }) as SearchEndpointResponse<E>;
+}
@@ -0,0 +1,46 @@
+import type { z } from "zod";
+import type {
+  imageResultSchema,
+  imagesResponseSchema,
+  pageHeadingSchema,
+  pageLinkSchema,
+  scrapeResponseSchema,
+  screenshotResponseSchema,
+  searchAttemptSchema,
+  searchErrorSchema,
+  searchResponseSchema,
+  searchResultSchema,
+  sourceResultSchema,
+  sourcesResponseSchema,
+  urlResponseSchema,
+  videoExtractResponseSchema,
+  videoSourceSchema,
+} from "./schemas";
+
+// Response shapes of the retrieval endpoints, inferred from ./schemas. These
+// mirror search-api/server.js so a route answers the same way whether the
+// remote service or one of the in-process fallbacks served it.
+
+export type SearchResult = z.infer<typeof searchResultSchema>;
+export type SearchAttempt = z.infer<typeof searchAttemptSchema>;
+export type SearchResponse = z.infer<typeof searchResponseSchema>;
+export type SourceResult = z.infer<typeof sourceResultSchema>;
+export type SourcesResponse = z.infer<typeof sourcesResponseSchema>;
+export type ImageResult = z.infer<typeof imageResultSchema>;
+export type ImagesResponse = z.infer<typeof imagesResponseSchema>;
+export type VideoSource = z.infer<typeof videoSourceSchema>;
+export type ScrapeResponse = z.infer<typeof scrapeResponseSchema>;
+export type PageLink = z.infer<typeof pageLinkSchema>;
+export type PageHeading = z.infer<typeof pageHeadingSchema>;
+export type UrlResponse = z.infer<typeof urlResponseSchema>;
+export type VideoExtractResponse = z.infer<typeof videoExtractResponseSchema>;
+export type ScreenshotResponse = z.infer<typeof screenshotResponseSchema>;
+export type SearchErrorBody = z.infer<typeof searchErrorSchema>;
+
+// What a cascade hands back to its route: the body, the HTTP status to answer
+// with and which layer produced it (sent as X-Search-Via)
+export interface CascadeOutcome<T> {
+  body: T;
+  status: number;
+  via: string;
+}
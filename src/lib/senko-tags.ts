@@ -0,0 +1,339 @@
+// Parser for the tags Senko writes inline in her replies:
+//   [ACTION:TYPE:value]  [STATUS:icon:text]  [MEMORY:key:value]  [IMAGE:url|alt]
+// plus [Source N] citations. One tokenizer finds tags by bracket depth rather
+// than `[^\]]+`, so values may contain `]` and `:` (ports, `EMBED:url|title`,
+// `?a[]=1`). Each tag is validated for its type; malformed ones are reported
+// as issues and, where the intent is clear, recovered. While a reply is still
+// streaming, an unfinished tag at the end is held back as `pending` so the UI
+// never flashes raw `[ACTION:` text.
+
+import { getAction, isActionType, listActions } from "@/lib/actions";
+import type { AgentAction } from "@/lib/agent-tools";
+import type { WebSource } from "@/types/chat";
+
+const TAG_NAMES = ["ACTION", "STATUS", "MEMORY"] as const;
+
+// -- Tokenizer --------------------------------------------------------------
+
+export type TagToken =
+  | { type: "text"; text: string }
+  | {
+      type: "tag";
+      name: string;
+      body: string;
+      raw: string;
+      start: number;
+      // false when the tag ran into a newline, another tag or the end of a final text
+      closed: boolean;
+    };
+
+export interface Tokenized {
+  tokens: TagToken[];
+  // Unfinished tag at the end of a streaming text ("[ACTION:SEA")
+  pending: string | null;
+}
+
+function tagNameAt(text: string, i: number): string | null {
+  const rest = text.slice(i + 1, i + 40);
+  const name = /^([A-Z][A-Z0-9_]*):/.exec(rest)?.[1];
+  if (!name) return null;
+  // A bare [TYPE:value] is the model dropping the ACTION: prefix; recovered as an action
+  return (TAG_NAMES as readonly string[]).includes(name) || isActionType(name) ? name : null;
+}
+
+// Could the text from `i` still grow into a tag opener?
+function couldBeTagStart(text: string, i: number): boolean {
+  const rest = text.slice(i + 1);
+  return [...TAG_NAMES, ...listActions().map((a) => a.type)].some((name) => `${name}:`.startsWith(rest));
+}
+
+// `final` is false while the text is still streaming in
+export function tokenizeTags(text: string, final = true): Tokenized {
+  const tokens: TagToken[] = [];
+  let textStart = 0;
+  let i = 0;
+
+  const pushText = (end: number) => {
+    if (end > textStart) tokens.push({ type: "text", text: text.slice(textStart, end) });
+  };
+
+  while (i < text.length) {
+    const open = text.indexOf("[", i);
+    if (open < 0) break;
+
+    const name = tagNameAt(text, open);
+    if (!name) {
+      if (!final && couldBeTagStart(text, open)) {
+        pushText(open);
+        return { tokens, pending: text.slice(open) };
+      }
+      i = open + 1;
+      continue;
+    }
+
+    // Walk to the matching `]`, stopping early at a newline or the next tag opener
+    const bodyStart = open + name.length + 2;
+    let depth = 1;
+    let j = bodyStart;
+    let closed = false;
+    for (; j < text.length; j++) {
+      const ch = text[j];
+      if (ch === "\n") break;
+      if (ch === "[") {
+        if (tagNameAt(text, j)) break;
+        depth++;
+      } else if (ch === "]") {
+        depth--;
+        if (depth === 0) {
+          closed = true;
+          break;
+        }
+      }
+    }
+
+    if (!closed && j >= text.length && !final) {
+      pushText(open);
+      return { tokens, pending: text.slice(open) };
+    }
+
+    const end = closed ? j + 1 : j;
+    pushText(open);
+    tokens.push({
+      type: "tag",
+      name,
+      body: text.slice(bodyStart, j).trim(),
+      raw: text.slice(open, end),
+      start: open,
+      closed,
+    });
+    textStart = i = end;
+  }
+
+  pushText(text.length);
+  return { tokens, pending: null };
+}
+
+// -- Validation -------------------------------------------------------------
+
+export type SenkoTag =
+  | { kind: "action"; action: AgentAction; raw: string }
+  | { kind: "status"; icon: string; text: string; raw: string }
+  | { kind: "memory"; key: string; value: string; raw: string };
+
+export interface TagIssue {
+  raw: string;
+  reason: string;
+  // true when the tag was still used after fixing it up
+  recovered: boolean;
+}
+
+export interface ParsedReply {
+  tags: SenkoTag[];
+  issues: TagIssue[];
+  // The text with every tag removed
+  text: string;
+  pending: string | null;
+}
+
+// Full http(s) URL, or a bare domain the model forgot the scheme on
+function normalizeUrl(value: string): { url: string; fixed: boolean } | null {
+  const tryParse = (u: string) => {
+    try {
+      const parsed = new URL(u);
+      return parsed.protocol === "http:" || parsed.protocol === "https:" ? u : null;
+    } catch {
+      return null;
+    }
+  };
+  const direct = tryParse(value);
+  if (direct) return { url: direct, fixed: false };
+  if (/^(?:www\.)?[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}(?:[/?#:]\S*)?$/i.test(value)) {
+    const fixed = tryParse(`https://${value}`);
+    if (fixed) return { url: fixed, fixed: true };
+  }
+  return null;
+}
+
+function splitOnce(body: string, sep: string): [string, string] {
+  const i = body.indexOf(sep);
+  return i < 0 ? [body, ""] : [body.slice(0, i), body.slice(i + sep.length)];
+}
+
+type Checked = { tag: SenkoTag | null; problems: string[] };
+
+function checkAction(type: string, value: string, raw: string): Checked {
+  const problems: string[] = [];
+  const kind = getAction(type)?.value;
+  if (!kind) return { tag: null, problems: [`unknown action ${type || "(none)"}`] };
+  if (!value && kind !== "none") return { tag: null, problems: [`${type} needs a value`] };
+
+  if (kind === "url" || kind === "url-label") {
+    // EMBED and IMAGE carry an optional `|title` / `|alt`
+    const [target, label] = kind === "url-label" ? splitOnce(value, "|") : [value, ""];
+    const url = normalizeUrl(target.trim());
+    if (!url) return { tag: null, problems: [`${type} needs a full URL, got "${target.trim()}"`] };
+    if (url.fixed) problems.push(`${type} URL was missing https://`);
+    value = label.trim() ? `${url.url}|${label.trim()}` : url.url;
+  }
+  if (kind === "number" && !/^\d+$/.test(value)) {
+    return { tag: null, problems: [`${type} needs a number, got "${value}"`] };
+  }
+  return { tag: { kind: "action", action: { type, value }, raw }, problems };
+}
+
+function checkTag(token: Extract<TagToken, { type: "tag" }>): Checked {
+  const { name, body, raw } = token;
+  if (name === "ACTION") {
+    const [type, value] = splitOnce(body, ":");
+    return checkAction(type.trim().toUpperCase(), value.trim(), raw);
+  }
+  if (name === "STATUS") {
+    const [icon, text] = splitOnce(body, ":");
+    if (!/^[a-z]+$/i.test(icon.trim()) || !text.trim()) {
+      return { tag: null, problems: ["STATUS needs [STATUS:icon:text]"] };
+    }
+    return { tag: { kind: "status", icon: icon.trim().toLowerCase(), text: text.trim(), raw }, problems: [] };
+  }
+  if (name === "MEMORY") {
+    const [key, value] = splitOnce(body, ":");
+    if (!key.trim() || !value.trim()) return { tag: null, problems: ["MEMORY needs [MEMORY:key:value]"] };
+    return { tag: { kind: "memory", key: key.trim(), value: value.trim(), raw }, problems: [] };
+  }
+  // [IMAGE:url|alt] and friends written without the ACTION: prefix
+  const checked = checkAction(name, body, raw);
+  if (checked.tag && name !== "IMAGE") checked.problems.unshift(`missing ACTION: prefix`);
+  return checked;
+}
+
+export function parseSenkoTags(text: string, final = true): ParsedReply {
+  const { tokens, pending } = tokenizeTags(text, final);
+  const tags: SenkoTag[] = [];
+  const issues: TagIssue[] = [];
+  let out = "";
+  // Whitespace around a tag collapses to one space, like the old `\s*\[TAG:...\]\s*` -> " "
+  let eatSpace = false;
+
+  for (const token of tokens) {
+    if (token.type === "text") {
+      out += eatSpace ? token.text.replace(/^\s+/, "") : token.text;
+      eatSpace = false;
+      continue;
+    }
+    const { tag, problems } = checkTag(token);
+    if (!token.closed) problems.unshift("missing closing ]");
+    if (tag) tags.push(tag);
+    if (problems.length > 0) issues.push({ raw: token.raw, reason: problems.join("; "), recovered: !!tag });
+    out = out.replace(/\s+$/, "") + " ";
+    // An unclosed tag ended at a newline; keep the line break
+    eatSpace = token.closed;
+  }
+
+  return { tags, issues, text: out, pending };
+}
+
+// -- Convenience accessors --------------------------------------------------
+
+export function tagActions(parsed: ParsedReply): AgentAction[] {
+  const actions: AgentAction[] = [];
+  for (const tag of parsed.tags) {
+    if (tag.kind !== "action") continue;
+    if (!actions.some((a) => a.type === tag.action.type && a.value === tag.action.value)) actions.push(tag.action);
+  }
+  return actions;
+}
+
+export function hasActionTags(text: string): boolean {
+  return text.includes("[") && parseSenkoTags(text).tags.some((t) => t.kind === "action");
+}
+
+// The last [STATUS] wins if the model wrote several
+export function tagStatus(parsed: ParsedReply): { icon: string; text: string } | null {
+  const status = parsed.tags.filter((t) => t.kind === "status").pop();
+  return status ? { icon: status.icon, text: status.text } : null;
+}
+
+export function tagMemories(parsed: ParsedReply): { key: string; value: string }[] {
+  return parsed.tags.flatMap((t) => (t.kind === "memory" ? [{ key: t.key, value: t.value }] : []));
+}
+
+export function reportTagIssues(parsed: ParsedReply, where: string): void {
+  for (const issue of parsed.issues) {
+    console.warn(
+      `%c[tags] ${issue.recovered ? "Recovered" : "Dropped"} malformed tag in ${where}: ${issue.reason}`,
+      "color: #ffaa00",
+      issue.raw
+    );
+  }
+}
+
+// What the chat bubble should show for a (possibly still streaming) reply:
+// complete tags removed, an unfinished trailing tag hidden
+export function visibleText(text: string): string {
+  if (!text.includes("[")) return text;
+  return parseSenkoTags(text, false).text.trimEnd();
+}
+
+// -- Source citations -------------------------------------------------------
+
+function sourceFrom(url: string, title: string): WebSource {
+  let hostname = "";
+  try { hostname = new URL(url).hostname; } catch { /* skip */ }
+  return {
+    url,
+    title: title || hostname,
+    favicon: `https://www.google.com/s2/favicons?domain=${hostname}&sz=16`,
+  };
+}
+
+// Parse and extract [Source N] citations from AI output, returning clean text + extracted sources
+export function parseAIOutput(text: string): { cleanText: string; extractedSources: WebSource[] } {
+  const extractedSources: WebSource[] = [];
+
+  // Pattern 1: [Source N]: Title URL or [Source N] - Title URL (full line)
+  // e.g. [Source 1]: Anime News Network - Spy x Family https://www.animenewsnetwork.com/...
+  // e.g. [Source 2] - MyAnimeList https://myanimelist.net/...
+  const fullSourceLineRegex = /\[Source \d+\][:\s-]*([^\n]*?)(https?:\/\/\S+)/gi;
+  let match;
+  while ((match = fullSourceLineRegex.exec(text)) !== null) {
+    const title = match[1].replace(/[-–—]\s*$/, "").trim() || match[2];
+    const url = match[2];
+    if (!extractedSources.some((s) => s.url === url)) extractedSources.push(sourceFrom(url, title));
+  }
+
+  // Pattern 2: - [Source N] - description (at end of response, "Sources" section)
+  const sourceSectionRegex = /- \[Source \d+\][:\s-]*([^\n]*)/gi;
+  while ((match = sourceSectionRegex.exec(text)) !== null) {
+    const urlMatch = match[1].match(/(https?:\/\/\S+)/);
+    if (urlMatch) {
+      const url = urlMatch[1];
+      const title = match[1].replace(urlMatch[1], "").replace(/[-–—]\s*$/, "").trim();
+      if (!extractedSources.some((s) => s.url === url)) extractedSources.push(sourceFrom(url, title));
+    }
+  }
+
+  // Now clean the text
+  const cleanText = parseSenkoTags(text).text
+    // Remove full source citation lines (entire line with [Source N] and URL)
+    .replace(/\[Source \d+\][:\s-]*[^\n]*https?:\/\/\S+[^\n]*/gi, "")
+    // Remove "Sources" section header and bullet source lines
+    .replace(/#+\s*Sources?\s*\n/gi, "")
+    .replace(/- \[Source \d+\][^\n]*/gi, "")
+    // Remove inline [Source N] references
+    .replace(/\[Source \d+\]/gi, "")
+    // Remove markdown images
+    .replace(/!\[[^\]]*\]\([^)]+\)/g, "")
+    // Remove <img> tags
+    .replace(/<img[^>]*>/gi, "")
+    // Remove bare image URLs
+    .replace(/https?:\/\/\S+\.(?:jpg|jpeg|png|gif|webp|svg|bmp|ico)(?:\?\S*)?/gi, "")
+    // Remove Google/Bing search URLs
+    .replace(/https?:\/\/(?:www\.)?google\.com\/\S*/gi, "")
+    .replace(/https?:\/\/(?:www\.)?bing\.com\/\S*/gi, "")
+    // Remove orphaned bare URLs on their own line (leftover from source stripping)
+    .replace(/^\s*https?:\/\/\S+\s*$/gm, "")
+    // Collapse excessive newlines
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+
+  return { cleanText, extractedSources };
+}
@@ -0,0 +1,228 @@
+// Record/replay harness for the agent pipeline in page.tsx.
+// Recording captures what the user typed, every /api/* response the page got
+// (model streams, search results, fetched pages...) and the outcome: the
+// conversation's messages, tabs, memories and the URLs it opened. Replaying
+// serves those responses back from the recording instead of the network,
+// re-sends the same inputs and diffs the new outcome against the recorded
+// one, so a prompt or parser change can be checked offline.
+
+import type { Message, SenkoTab } from "@/types/chat";
+
+export const SESSION_FORMAT_VERSION = 1;
+
+export interface RecordedExchange {
+  method: string;
+  // Path + query, e.g. "/api/search?q=red%20pandas"
+  url: string;
+  status: number;
+  contentType: string;
+  body: string;
+}
+
+export interface SessionOutcome {
+  messages: Message[];
+  tabs: SenkoTab[];
+  memories: { key: string; value: string }[];
+  // window.open calls made by actions (OPEN_URL etc.)
+  opened: string[];
+}
+
+export interface SessionRecording {
+  version: number;
+  name: string;
+  recordedAt: string;
+  // Memories present when recording started — restored before replay
+  initialMemories: { key: string; value: string }[];
+  inputs: string[];
+  exchanges: RecordedExchange[];
+  outcome: SessionOutcome;
+}
+
+const isApiRequest = (url: URL) => url.origin === window.location.origin && url.pathname.startsWith("/api/")
+  // The harness's own fixture store is never part of a session
+  && !url.pathname.startsWith("/api/sessions");
+
+function requestOf(input: RequestInfo | URL, init?: RequestInit): { url: URL; method: string } {
+  const raw = input instanceof Request ? input.url : input.toString();
+  const method = (init?.method ?? (input instanceof Request ? input.method : "GET")).toUpperCase();
+  return { url: new URL(raw, window.location.href), method };
+}
+
+// -- Recording --------------------------------------------------------------
+
+export interface SessionRecorder {
+  recordInput: (text: string) => void;
+  // Restores window.fetch / window.open and returns the finished recording
+  stop: (outcome: Omit<SessionOutcome, "opened">) => SessionRecording;
+}
+
+export function startRecording(name: string, initialMemories: { key: string; value: string }[]): SessionRecorder {
+  const realFetch = window.fetch;
+  const realOpen = window.open;
+  const inputs: string[] = [];
+  const exchanges: RecordedExchange[] = [];
+  const opened: string[] = [];
+  const recordedAt = new Date().toISOString();
+
+  window.fetch = async (input, init) => {
+    const res = await realFetch(input, init);
+    const { url, method } = requestOf(input, init);
+    if (!isApiRequest(url)) return res;
+    // Reserve the slot now so exchanges keep request order even when bodies finish out of order
+    const exchange: RecordedExchange = {
+      method,
+      url: url.pathname + url.search,
+      status: res.status,
+      contentType: res.headers.get("content-type") ?? "",
+      body: "",
+    };
+    exchanges.push(exchange);
+    res.clone().text().then((body) => { exchange.body = body; }).catch(() => {});
+    return res;
+  };
+
+  window.open = (url, ...rest) => {
+    if (url) opened.push(url.toString());
+    return realOpen.call(window, url, ...rest);
+  };
+
+  return {
+    recordInput: (text) => inputs.push(text),
+    stop: (outcome) => {
+      window.fetch = realFetch;
+      window.open = realOpen;
+      return {
+        version: SESSION_FORMAT_VERSION,
+        name,
+        recordedAt,
+        initialMemories,
+        inputs,
+        exchanges,
+        outcome: { ...outcome, opened },
+      };
+    },
+  };
+}
+
+// -- Replay -----------------------------------------------------------------
+
+export interface SessionReplayer {
+  // /api/* requests currently being answered from the recording
+  inFlight: () => number;
+  // Requests the recording had no answer for
+  unmatched: string[];
+  opened: string[];
+  stop: () => void;
+}
+
+// Answers /api/* requests from the recording: an unused exchange with the
+// exact same URL first, otherwise the next unused one for the same path (chat
+// requests carry timestamps in the prompt, so they are matched by order).
+// Nothing reaches the network; unknown requests get a 501.
+export function startReplay(recording: SessionRecording): SessionReplayer {
+  const realFetch = window.fetch;
+  const realOpen = window.open;
+  const used = new Set<number>();
+  const unmatched: string[] = [];
+  const opened: string[] = [];
+  let inFlight = 0;
+
+  const take = (method: string, url: URL): RecordedExchange | null => {
+    const full = url.pathname + url.search;
+    const candidates = recording.exchanges
+      .map((e, i) => ({ e, i }))
+      .filter(({ e, i }) => !used.has(i) && e.method === method);
+    const hit = candidates.find(({ e }) => e.url === full)
+      ?? candidates.find(({ e }) => e.url.split("?")[0] === url.pathname);
+    if (!hit) return null;
+    used.add(hit.i);
+    return hit.e;
+  };
+
+  window.fetch = async (input, init) => {
+    const { url, method } = requestOf(input, init);
+    if (!isApiRequest(url)) return realFetch(input, init);
+    inFlight++;
+    try {
+      const exchange = take(method, url);
+      if (!exchange) {
+        unmatched.push(`${method} ${url.pathname}${url.search}`);
+        return Response.json({ error: "Not in the recorded session" }, { status: 501 });
+      }
+      // Let the page's streaming code see the body arrive asynchronously, like a real response
+      await new Promise((r) => setTimeout(r, 0));
+      return new Response(exchange.body, {
+        status: exchange.status,
+        headers: { "Content-Type": exchange.contentType },
+      });
+    } finally {
+      inFlight--;
+    }
+  };
+
+  window.open = (url) => {
+    if (url) opened.push(url.toString());
+    return null;
+  };
+
+  return {
+    inFlight: () => inFlight,
+    unmatched,
+    opened,
+    stop: () => {
+      window.fetch = realFetch;
+      window.open = realOpen;
+    },
+  };
+}
+
+// -- Comparison -------------------------------------------------------------
+
+// Only what the pipeline decides: ids, timestamps, token counts and which
+// provider answered are expected to differ between runs
+function normalizeMessage(m: Message) {
+  return {
+    role: m.role,
+    content: m.content.trim(),
+    sources: m.sources?.map((s) => s.url) ?? [],
+    images: m.images?.length ?? 0,
+    videos: m.videos?.map((v) => v.url) ?? [],
+    webEmbeds: m.webEmbeds?.map((e) => e.url) ?? [],
+    mapEmbed: m.mapEmbed ? `${m.mapEmbed.lat},${m.mapEmbed.lng}` : null,
+    gifs: m.gifs?.length ?? 0,
+    error: m.error ?? null,
+  };
+}
+
+export function normalizeOutcome(outcome: SessionOutcome) {
+  return {
+    messages: outcome.messages.filter((m) => !m.isThinking && m.role !== "thinking").map(normalizeMessage),
+    tabs: outcome.tabs.map((t) => t.url),
+    memories: outcome.memories.map((m) => `${m.key}=${m.value}`).sort(),
+    opened: outcome.opened,
+  };
+}
+
+// Human-readable differences between two outcomes; empty when they match
+export function diffOutcomes(expected: SessionOutcome, actual: SessionOutcome): string[] {
+  const a = normalizeOutcome(expected);
+  const b = normalizeOutcome(actual);
+  const diffs: string[] = [];
+  const same = (x: unknown, y: unknown) => JSON.stringify(x) === JSON.stringify(y);
+  const show = (v: unknown) => JSON.stringify(v)?.slice(0, 200);
+
+  if (a.messages.length !== b.messages.length) {
+    diffs.push(`messages: expected ${a.messages.length}, got ${b.messages.length}`);
+  }
+  for (let i = 0; i < Math.min(a.messages.length, b.messages.length); i++) {
+    for (const key of Object.keys(a.messages[i]) as (keyof (typeof a.messages)[number])[]) {
+      if (!same(a.messages[i][key], b.messages[i][key])) {
+        diffs.push(`messages[${i}].${key}: expected ${show(a.messages[i][key])}, got ${show(b.messages[i][key])}`);
+      }
+    }
+  }
+  for (const key of ["tabs", "memories", "opened"] as const) {
+    if (!same(a[key], b[key])) diffs.push(`${key}: expected ${show(a[key])}, got ${show(b[key])}`);
+  }
+  return diffs;
+}
@@ -0,0 +1,49 @@
+// Rolling conversation summary: older turns are folded into one persisted
+// summary, and only the summary plus the recent turns are sent to the model.
+
+import type { ConversationSummary, Message } from "@/types/chat";
+import { estimateTokens } from "@/lib/tokens";
+
+// Always sent verbatim, never summarized
+export const KEEP_RECENT_MESSAGES = 8;
+// Summarize once the unsummarized older turns grow past this
+const SUMMARY_TRIGGER_TOKENS = 4000;
+// Page dumps and long answers are clipped before they go into the summary prompt
+const MAX_CHARS_PER_MESSAGE = 2000;
+
+const chatMessages = (messages: Message[]) =>
+  messages.filter((m) => !m.isThinking && (m.role === "user" || m.role === "assistant"));
+
+// Messages not covered by the summary yet
+export function messagesAfterSummary(messages: Message[], summary?: ConversationSummary): Message[] {
+  if (!summary) return messages;
+  const idx = messages.findIndex((m) => m.id === summary.coversUntil);
+  return idx === -1 ? messages : messages.slice(idx + 1);
+}
+
+// Older turns that should be folded into the summary now, or null if it's not worth it yet
+export function planSummary(messages: Message[], summary?: ConversationSummary): Message[] | null {
+  const pending = chatMessages(messagesAfterSummary(messages, summary));
+  const older = pending.slice(0, Math.max(0, pending.length - KEEP_RECENT_MESSAGES));
+  if (older.length < 2) return null;
+  const tokens = older.reduce((sum, m) => sum + estimateTokens(m.content), 0);
+  return tokens >= SUMMARY_TRIGGER_TOKENS ? older : null;
+}
+
+export function buildSummaryRequest(messages: Message[], previous?: string): string {
+  const transcript = messages
+    .map((m) => {
+      const text = m.content.length > MAX_CHARS_PER_MESSAGE
+        ? m.content.slice(0, MAX_CHARS_PER_MESSAGE) + " [...]"
+        : m.content;
+      return `${m.role === "user" ? "User" : "Senko"}: ${text}`;
+    })
+    .join("\n\n");
+  return `Existing summary:\n${previous?.trim() || "(none yet)"}\n\nNew messages:\n${transcript}\n\nWrite the updated summary.`;
+}
+
+// Appended to the system prompt in place of the summarized turns (by @/lib/prompts)
+export function summaryContext(summary?: Pick<ConversationSummary, "text" | "coveredCount">): string {
+  if (!summary?.text.trim()) return "";
+  return `\n\nCONVERSATION SO FAR (summary of ${summary.coveredCount} earlier messages — treat as memory of what already happened):\n${summary.text.trim()}`;
+}
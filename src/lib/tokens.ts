@@ -0,0 +1,106 @@
+// Token counting and context-window budgeting, shared by /api/chat and page.tsx.
+// There is no tokenizer here: counts are a heuristic estimate from the text.
+// Real numbers only come from the `usage` providers report for a reply, and
+// replace the estimate wherever we have them.
+
+interface BudgetMessage {
+  role: string;
+  content: string;
+}
+
+// Chat formats wrap every message in a few role/separator tokens
+const MESSAGE_OVERHEAD = 4;
+
+const CJK = /[\u3040-\u30ff\u3400-\u9fff\uac00-\ud7af]/;
+
+// Heuristic, not a tokenizer: words of up to 4 chars count as one token,
+// longer ones as ~4-char pieces, punctuation as a token each and CJK as one per
+// char. It tracks BPE counts better than length / 4 on code, URLs and short
+// chat, but can be off by a fair margin for any given model.
+export function estimateTokens(text: string): number {
+  if (!text) return 0;
+  let tokens = 0;
+  for (const piece of text.match(/[\p{L}\p{N}_]+|[^\s\p{L}\p{N}_]/gu) ?? []) {
+    if (CJK.test(piece)) {
+      tokens += [...piece].length;
+    } else if (/^[\p{L}\p{N}_]/u.test(piece)) {
+      tokens += piece.length <= 4 ? 1 : Math.ceil(piece.length / 4);
+    } else {
+      tokens += 1;
+    }
+  }
+  return tokens;
+}
+
+export function estimateMessageTokens(message: BudgetMessage): number {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD;
+}
+
+// -- Context windows --------------------------------------------------------
+
+// Checked in order, first match wins
+const CONTEXT_WINDOWS: [RegExp, number][] = [
+  [/deepseek-r1/, 163_840],
+  [/llama-3\.[123]|llama-4/, 131_072],
+  [/gpt-oss/, 131_072],
+  [/step-3/, 65_536],
+  [/mistral|mixtral|qwen/, 32_768],
+  [/gemma/, 8_192],
+];
+
+export const DEFAULT_CONTEXT_WINDOW = 8_192;
+
+export function getContextWindow(model: string | undefined): number {
+  if (!model) return DEFAULT_CONTEXT_WINDOW;
+  const lower = model.toLowerCase();
+  for (const [pattern, window] of CONTEXT_WINDOWS) {
+    if (pattern.test(lower)) return window;
+  }
+  return DEFAULT_CONTEXT_WINDOW;
+}
+
+// -- Budgeting --------------------------------------------------------------
+
+export interface BudgetResult<T extends BudgetMessage> {
+  messages: T[];
+  // Non-system messages dropped from the front of the history
+  dropped: T[];
+  tokens: number;
+}
+
+// Fit a conversation into `window - reserve` estimated tokens. System
+// messages and the latest message always stay; the oldest turns go first.
+// Everything kept stays where it was, so system turns in the middle of a
+// thread (as /v1 clients send them) keep their place.
+export function fitToContext<T extends BudgetMessage>(
+  messages: T[],
+  window: number,
+  reserve: number
+): BudgetResult<T> {
+  const budget = Math.max(window - reserve, 0);
+  let tokens = messages
+    .filter((m) => m.role === "system")
+    .reduce((sum, m) => sum + estimateMessageTokens(m), 0);
+
+  // Walk back from the latest turn until the budget runs out; every
+  // non-system turn before that point is dropped
+  let cut = 0;
+  let keptTurns = 0;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].role === "system") continue;
+    const cost = estimateMessageTokens(messages[i]);
+    if (keptTurns > 0 && tokens + cost > budget) {
+      cut = i + 1;
+      break;
+    }
+    keptTurns++;
+    tokens += cost;
+  }
+
+  const dropped = messages.slice(0, cut).filter((m) => m.role !== "system");
+  return {
+    messages: messages.filter((m, i) => i >= cut || m.role === "system"),
+    dropped,
+    tokens,
+  };
+}
@@ -1,3 +1,5 @@
+import type { SearchFilters } from "@/lib/search/filters";
+
 export interface WebSource {
   url: string;
   title: string;
@@ -50,6 +52,10 @@ export interface Message {
   timestamp: Date;
   isEditing?: boolean;
   sources?: WebSource[];
+  // The search behind `sources`: its filters are shown as removable chips,
+  // `ignored` lists those the answering engine couldn't apply, and `cursor`
+  // fetches the page after `page` ("Load more")
+  search?: { query: string; filters: SearchFilters; ignored?: string[]; page?: number; cursor?: string };
   mapEmbed?: MapEmbed;
   images?: MessageImage[];
   videos?: VideoEmbed[];
@@ -57,9 +63,59 @@ export interface Message {
   gifs?: MessageGif[];
   tokenCount?: number;
   isThinking?: boolean;
+  // Reasoning tokens streamed by thinking models, shown collapsed
+  reasoning?: string;
+  // Provider and model that answered, e.g. "groq" + "llama-3.3-70b-versatile"
+  provider?: string;
+  model?: string;
+  // Version of the system prompt template it was generated with, e.g. "senko.v1"
+  promptVersion?: string;
+  // Prompt + completion tokens of the request that produced this reply,
+  // i.e. how much of the model's context window the conversation used
+  contextTokens?: number;
+  // Mid-stream failovers, in order — the answer continued on `to`
+  providerSwitches?: { from: string; to: string; reason: string }[];
+  // Steps of the agent chain this reply started (page reads, follow-ups, actions)
+  trace?: AgentTrace;
+  // Actions waiting on (or decided by) the user, shown as approve/deny cards
+  permissions?: ActionPermissionRequest[];
+  // Data plugin actions attached, drawn by the action's renderer
+  attachments?: { action: string; data: unknown }[];
   error?: string;
 }
 
+export type AgentStepKind = "model" | "action" | "read" | "api" | "limit" | "cancel";
+
+export interface AgentTraceStep {
+  // Milliseconds since the chain started
+  at: number;
+  kind: AgentStepKind;
+  label: string;
+  // Action arguments, URL read, HTTP status...
+  detail?: string;
+  status: "ok" | "skipped" | "error";
+  durationMs?: number;
+  // API call made, e.g. "GET /api/url?url=..."
+  request?: string;
+  // Start of the response body or model reply
+  response?: string;
+  // Prompt sent back to the model for a follow-up
+  prompt?: string;
+}
+
+export type AgentStopReason = "done" | "max_steps" | "time_budget" | "cancelled";
+
+export interface AgentTrace {
+  startedAt: number;
+  endedAt?: number;
+  stopReason?: AgentStopReason;
+  // Navigation hops used / allowed
+  stepsUsed: number;
+  maxSteps: number;
+  timeBudgetMs: number;
+  steps: AgentTraceStep[];
+}
+
 export interface SenkoStatus {
   icon: string;
   text: string;
@@ -75,6 +131,42 @@ export interface SenkoTab {
   openedAt: number;
 }
 
+export interface ConversationSummary {
+  text: string;
+  // Id of the last message folded into the summary
+  coversUntil: string;
+  coveredCount: number;
+  updatedAt: number;
+  // Hand-edited from the chat header
+  edited?: boolean;
+}
+
+// Per-conversation generation settings; unset fields use the server defaults
+// and an unset model lets the provider cascade pick
+export interface GenerationSettings {
+  provider?: string;
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface ModelOption {
+  id: string;
+  reasoning: boolean;
+  contextWindow: number;
+  // On cooldown in the server's circuit breaker right now
+  coolingDown: boolean;
+}
+
+export interface ModelProviderInfo {
+  name: string;
+  label: string;
+  local: boolean;
+  // Local servers only: whether the last probe reached it
+  up?: boolean;
+  models: ModelOption[];
+}
+
 export interface Conversation {
   id: string;
   title: string;
@@ -83,6 +175,8 @@ export interface Conversation {
   updatedAt: Date;
   status?: SenkoStatus;
   tabs?: SenkoTab[];
+  summary?: ConversationSummary;
+  generation?: GenerationSettings;
 }
 
 export interface BrowserInfo {
@@ -113,6 +207,23 @@ export interface PermissionStatus {
   state: "granted" | "denied" | "prompt";
 }
 
+// Actions that reach outside the chat: windows, tabs, apps on the host and
+// tools or resources on MCP servers
+export type GuardedAction = "OPEN_APP" | "OPEN_URL" | "OPEN_TAB" | "MCP" | "MCP_READ";
+
+export type ActionPermission = "allow" | "ask" | "never";
+
+export interface ActionPermissionRequest {
+  id: string;
+  action: GuardedAction;
+  // URL or app name the action would open, or the MCP call / read
+  target: string;
+  // Domain, app, MCP server/tool or MCP server a remembered decision applies to
+  scope: string;
+  // "expired" when the page reloaded or the chain was stopped before an answer
+  status: "pending" | "approved" | "denied" | "expired";
+}
+
 export interface AppSettings {
   notifications: boolean;
   location: boolean;
@@ -121,4 +232,7 @@ export interface AppSettings {
   clipboard: boolean;
   fontSize: "small" | "medium" | "large";
   sendWithEnter: boolean;
+  actionPolicy: Record<GuardedAction, ActionPermission>;
+  // Remembered answers to "ask" cards, keyed by actionGrantKey()
+  actionGrants: Record<string, "allow" | "never">;
 }